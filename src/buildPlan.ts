@@ -0,0 +1,90 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Versions of the packages a project is built against, by package name.
+ */
+export type PackageVersions = Map<string, string>;
+
+/**
+ * Parsed build plans, by the path of the plan file. Only valid as long as the file's modification time doesn't change.
+ */
+const planCache: Map<string, { mtimeMs: number; versions: PackageVersions }> = new Map();
+
+/**
+ * Look up which versions of its dependencies a project is built against, from cabal's build plan
+ * (`dist-newstyle/cache/plan.json`) or stack's lock file (`stack.yaml.lock`).
+ *
+ * Plans are only read, never computed, so the project must have been built (or at least configured) before.
+ *
+ * @param workingDir Root of the project.
+ * @returns The package versions. Empty if the project has no build plan.
+ */
+export function projectPackageVersions(workingDir: string): PackageVersions {
+  const versions: PackageVersions = new Map();
+  // stack's lock only lists extra-deps, everything else comes from the snapshot, so cabal's plan wins
+  for (const [file, parse] of [
+    [path.join(workingDir, 'stack.yaml.lock'), parseStackLock],
+    [path.join(workingDir, 'dist-newstyle', 'cache', 'plan.json'), parseCabalPlan],
+  ] as [string, (contents: string) => PackageVersions][]) {
+    cachedPlan(file, parse).forEach((version, name) => versions.set(name, version));
+  }
+  return versions;
+}
+
+/**
+ * Split a directory name like `text-2.0.2` or `text-2.0.2-1a2b3c4d` (as found in the cabal store)
+ * into the package name and version.
+ *
+ * @returns The package name and version, or `undefined` if the name doesn't contain a version.
+ */
+export function parsePackageId(dirName: string): { name: string; version: string } | undefined {
+  const match = /^([A-Za-z0-9-]*?[A-Za-z][A-Za-z0-9]*)-(\d+(?:\.\d+)*)(?:-[0-9a-f]+)?$/.exec(dirName);
+  return match ? { name: match[1], version: match[2] } : undefined;
+}
+
+function cachedPlan(file: string, parse: (contents: string) => PackageVersions): PackageVersions {
+  let mtimeMs: number;
+  try {
+    mtimeMs = fs.statSync(file).mtimeMs;
+  } catch (_err) {
+    return new Map();
+  }
+  const cached = planCache.get(file);
+  if (cached && cached.mtimeMs === mtimeMs) {
+    return cached.versions;
+  }
+  let versions: PackageVersions;
+  try {
+    versions = parse(fs.readFileSync(file, { encoding: 'utf-8' }));
+  } catch (_err) {
+    // a broken plan is as good as none, the links just won't be pinned
+    versions = new Map();
+  }
+  planCache.set(file, { mtimeMs, versions });
+  return versions;
+}
+
+function parseCabalPlan(contents: string): PackageVersions {
+  const plan = JSON.parse(contents) as {
+    'install-plan'?: { 'pkg-name': string; 'pkg-version': string; style?: string }[];
+  };
+  // the packages of the project itself are not on Hackage
+  return new Map(
+    (plan['install-plan'] ?? [])
+      .filter((unit) => unit.style !== 'local')
+      .map((unit) => [unit['pkg-name'], unit['pkg-version']]),
+  );
+}
+
+function parseStackLock(contents: string): PackageVersions {
+  // entries look like `hackage: text-2.0.2@sha256:...,1234`
+  const versions: PackageVersions = new Map();
+  for (const match of contents.matchAll(/^\s*hackage:\s*['"]?([^@\s'"]+)/gm)) {
+    const id = parsePackageId(match[1]);
+    if (id) {
+      versions.set(id.name, id.version);
+    }
+  }
+  return versions;
+}
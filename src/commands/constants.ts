@@ -2,5 +2,18 @@ export const RestartExtensionCommandName = 'haskell.commands.restartExtension';
 export const RestartServerCommandName = 'haskell.commands.restartServer';
 export const StartServerCommandName = 'haskell.commands.startServer';
 export const StopServerCommandName = 'haskell.commands.stopServer';
+export const ResumeSetupCommandName = 'haskell.commands.resumeSetup';
 export const OpenLogsCommandName = 'haskell.commands.openLogs';
 export const ShowExtensionVersions = 'haskell.commands.showVersions';
+export const ValidateConfigurationCommandName = 'haskell.commands.validateConfiguration';
+export const GenerateDiagnosticsReportCommandName = 'haskell.commands.generateDiagnosticsReport';
+export const UpdateToolchainLockCommandName = 'haskell.commands.updateToolchainLock';
+export const ShowToolchainLockDriftCommandName = 'haskell.commands.showToolchainLockDrift';
+export const RefreshToolchainsCommandName = 'haskell.commands.refreshToolchains';
+export const InstallToolCommandName = 'haskell.commands.installTool';
+export const SetToolCommandName = 'haskell.commands.setTool';
+export const UninstallToolCommandName = 'haskell.commands.uninstallTool';
+export const GarbageCollectToolsCommandName = 'haskell.commands.garbageCollectTools';
+export const SearchHoogleCommandName = 'haskell.commands.searchHoogle';
+export const GenerateHoogleDatabaseCommandName = 'haskell.commands.generateHoogleDatabase';
+export const FetchDependencyDocsCommandName = 'haskell.commands.fetchDependencyDocs';
@@ -1,9 +1,12 @@
 import { OutputChannel, Uri, window, WorkspaceConfiguration, WorkspaceFolder } from 'vscode';
-import { expandHomeDir, IEnvVars } from './utils';
+import { IEnvVars, parseCommandLine, resolveServerEnvironment, substituteVariables } from './utils';
 import * as path from 'path';
 import { Logger } from 'vscode-languageclient';
-import { ExtensionLogger } from './logger';
+import { ExtensionLogger, LoggerOptions } from './logger';
+import { parseRedactPatterns, Redactor } from './redaction';
 import { GHCupConfig } from './ghcup';
+import { RestartPolicy } from './crashRecovery';
+import { validSetting } from './configValidation';
 
 export type LogLevel = 'off' | 'messages' | 'verbose';
 export type ClientLogLevel = 'off' | 'error' | 'info' | 'debug';
@@ -21,6 +24,8 @@ export type Config = {
   serverArgs: string[];
   serverEnvironment: IEnvVars;
   ghcupConfig: GHCupConfig;
+  restartPolicy: RestartPolicy;
+  logOptions: LoggerOptions;
 };
 
 export function initConfig(workspaceConfig: WorkspaceConfiguration, uri: Uri, folder?: WorkspaceFolder): Config {
@@ -28,14 +33,19 @@ export function initConfig(workspaceConfig: WorkspaceConfiguration, uri: Uri, fo
   const langName = 'Haskell' + (folder ? ` (${folder.name})` : '');
   const currentWorkingDir = folder ? folder.uri.fsPath : path.dirname(uri.fsPath);
 
-  const logLevel = getLogLevel(workspaceConfig);
-  const clientLogLevel = getClientLogLevel(workspaceConfig);
+  // invalid values fall back to the defaults, they are reported by `validateConfig`
+  const logLevel = validSetting<LogLevel>(workspaceConfig, 'trace.server');
+  const clientLogLevel = validSetting<ClientLogLevel>(workspaceConfig, 'trace.client');
 
   const logFile = getLogFile(workspaceConfig);
-  const logFilePath = resolveLogFilePath(logFile, currentWorkingDir);
+  const logFilePath = resolveLogFilePath(logFile, currentWorkingDir, folder);
 
   const outputChannel: OutputChannel = window.createOutputChannel(langName);
-  const serverArgs = getServerArgs(workspaceConfig, logLevel, logFilePath);
+  const serverArgs = getServerArgs(workspaceConfig, logLevel, logFilePath, folder);
+  const serverEnvironment = resolveServerEnvironment(
+    validSetting<IEnvVars>(workspaceConfig, 'serverEnvironment'),
+    folder,
+  );
 
   return {
     langName: langName,
@@ -45,17 +55,71 @@ export function initConfig(workspaceConfig: WorkspaceConfiguration, uri: Uri, fo
     workingDir: currentWorkingDir,
     outputChannel: outputChannel,
     serverArgs: serverArgs,
-    serverEnvironment: workspaceConfig.serverEnvironment,
-    ghcupConfig: {
-      metadataUrl: workspaceConfig.metadataURL as string,
-      upgradeGHCup: workspaceConfig.get('upgradeGHCup') as boolean,
-      executablePath: workspaceConfig.get('ghcupExecutablePath'),
+    serverEnvironment: serverEnvironment,
+    ghcupConfig: getGHCupConfig(workspaceConfig),
+    restartPolicy: {
+      maxRestarts: validSetting(workspaceConfig, 'crashRecovery.maxRestarts'),
+      initialDelay: validSetting(workspaceConfig, 'crashRecovery.initialDelay'),
+      stderrLines: validSetting(workspaceConfig, 'crashRecovery.stderrLines'),
+    },
+    logOptions: {
+      rotation: {
+        maxSize: validSetting<number>(workspaceConfig, 'logRotation.maxSize') * 1024 * 1024,
+        maxFiles: validSetting(workspaceConfig, 'logRotation.maxFiles'),
+      },
+      componentLevels: validSetting(workspaceConfig, 'trace.components') ?? {},
+      redactor: initRedactor(workspaceConfig, serverEnvironment),
     },
   };
 }
 
+/**
+ * Redacts the secrets configured in `haskell.trace.redact`, and those in the environment of the extension and server.
+ */
+export function initRedactor(workspaceConfig: WorkspaceConfiguration, serverEnvironment?: IEnvVars): Redactor {
+  const { valid } = parseRedactPatterns(workspaceConfig.get('trace.redact'));
+  return new Redactor(valid, { ...(process.env as IEnvVars), ...(serverEnvironment ?? {}) });
+}
+
+/**
+ * The configuration as it goes into reports, without values that may contain secrets.
+ */
+export function redactConfig(config: Config): object {
+  return {
+    ...config,
+    outputChannel: undefined,
+    serverEnvironment: redactEnvironment(config.serverEnvironment),
+    // the redactor knows the secrets
+    logOptions: { ...config.logOptions, redactor: undefined },
+  };
+}
+
+/**
+ * Only the PATH is shown, like in the logs. All other values may contain secrets.
+ */
+export function redactEnvironment(environment: IEnvVars | undefined): IEnvVars {
+  return Object.fromEntries(
+    Object.entries(environment ?? {}).map(([key, value]) => [key, key === 'PATH' ? value : '<redacted>']),
+  );
+}
+
+export function getGHCupConfig(workspaceConfig: WorkspaceConfiguration): GHCupConfig {
+  return {
+    metadataUrl: workspaceConfig.metadataURL as string,
+    upgradeGHCup: workspaceConfig.get('upgradeGHCup') as boolean,
+    executablePath: workspaceConfig.get('ghcupExecutablePath'),
+    offline: workspaceConfig.get('offline') as boolean,
+  };
+}
+
 export function initLoggerFromConfig(config: Config): ExtensionLogger {
-  return new ExtensionLogger('client', config.clientLogLevel, config.outputChannel, config.logFilePath);
+  return new ExtensionLogger(
+    'client',
+    config.clientLogLevel,
+    config.outputChannel,
+    config.logFilePath,
+    config.logOptions,
+  );
 }
 
 export function logConfig(logger: Logger, config: Config) {
@@ -63,13 +127,9 @@ export function logConfig(logger: Logger, config: Config) {
     logger.info(`Writing client log to file ${config.logFilePath}`);
   }
   logger.log('Environment variables:');
+  // secrets are redacted by the logger, see `haskell.trace.redact`
   Object.entries(process.env).forEach(([key, value]: [string, string | undefined]) => {
-    // only list environment variables that we actually care about.
-    // this makes it safe for users to just paste the logs to whoever,
-    // and avoids leaking secrets.
-    if (['PATH'].includes(key)) {
-      logger.log(`  ${key}: ${value}`);
-    }
+    logger.log(`  ${key}: ${value}`);
   });
 }
 
@@ -82,60 +142,56 @@ function getLogFile(workspaceConfig: WorkspaceConfiguration) {
   return logFile;
 }
 
-function getClientLogLevel(workspaceConfig: WorkspaceConfiguration): ClientLogLevel {
-  const clientLogLevel_: unknown = workspaceConfig.trace.client;
-  let clientLogLevel;
-  if (typeof clientLogLevel_ === 'string') {
-    switch (clientLogLevel_) {
-      case 'off':
-      case 'error':
-      case 'info':
-      case 'debug':
-        clientLogLevel = clientLogLevel_;
-        break;
-      default:
-        throw new Error("Option \"haskell.trace.client\" is expected to be one of 'off', 'error', 'info', 'debug'.");
-    }
-  } else {
-    throw new Error('Option "haskell.trace.client" is expected to be a string');
-  }
-  return clientLogLevel;
-}
-
-function getLogLevel(workspaceConfig: WorkspaceConfiguration): LogLevel {
-  const logLevel_: unknown = workspaceConfig.trace.server;
-  let logLevel;
-  if (typeof logLevel_ === 'string') {
-    switch (logLevel_) {
-      case 'off':
-      case 'messages':
-      case 'verbose':
-        logLevel = logLevel_;
-        break;
-      default:
-        throw new Error("Option \"haskell.trace.server\" is expected to be one of 'off', 'messages', 'verbose'.");
-    }
-  } else {
-    throw new Error('Option "haskell.trace.server" is expected to be a string');
+/**
+ * The absolute path of the log file, relative paths are relative to the working directory.
+ * If a variable in the path can't be substituted, nothing is logged to a file, `validateConfig` reports it.
+ */
+function resolveLogFilePath(
+  logFile: string | undefined,
+  currentWorkingDir: string,
+  folder?: WorkspaceFolder,
+): string | undefined {
+  try {
+    return logFile !== undefined
+      ? path.resolve(currentWorkingDir, substituteVariables(logFile, 'haskell.logFile', folder))
+      : undefined;
+  } catch (_err) {
+    return undefined;
   }
-  return logLevel;
 }
 
-function resolveLogFilePath(logFile: string | undefined, currentWorkingDir: string): string | undefined {
-  return logFile !== undefined ? path.resolve(currentWorkingDir, expandHomeDir(logFile)) : undefined;
-}
-
-function getServerArgs(workspaceConfig: WorkspaceConfiguration, logLevel: LogLevel, logFilePath?: string): string[] {
+function getServerArgs(
+  workspaceConfig: WorkspaceConfiguration,
+  logLevel: LogLevel,
+  logFilePath?: string,
+  folder?: WorkspaceFolder,
+): string[] {
   const serverArgs = ['--lsp']
     .concat(logLevel === 'messages' ? ['-d'] : [])
     .concat(logFilePath !== undefined ? ['-l', logFilePath] : []);
 
-  const rawExtraArgs: unknown = workspaceConfig.serverExtraArgs;
-  if (typeof rawExtraArgs === 'string' && rawExtraArgs !== '') {
-    const e = rawExtraArgs.split(' ');
-    serverArgs.push(...e);
+  try {
+    return serverArgs.concat(
+      getServerExtraArgs(workspaceConfig).map((arg) => substituteVariables(arg, 'haskell.serverExtraArgs', folder)),
+    );
+  } catch (_err) {
+    // reported by `validateConfig`, like extra arguments that can't be parsed
+    return serverArgs;
   }
+}
 
-  // We don't want empty strings in our args
-  return serverArgs.map((x) => x.trim()).filter((x) => x !== '');
+/**
+ * The arguments in `haskell.serverExtraArgs`, either a list of arguments or a command line that is split like a shell does.
+ * A command line that can't be split, e.g. due to an unterminated quote, is ignored and reported by `validateConfig`.
+ */
+function getServerExtraArgs(workspaceConfig: WorkspaceConfiguration): string[] {
+  const rawExtraArgs = validSetting<string | string[]>(workspaceConfig, 'serverExtraArgs');
+  if (Array.isArray(rawExtraArgs)) {
+    return rawExtraArgs;
+  }
+  try {
+    return parseCommandLine(rawExtraArgs ?? '');
+  } catch (_err) {
+    return [];
+  }
 }
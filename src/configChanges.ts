@@ -0,0 +1,100 @@
+import { ConfigurationChangeEvent, ConfigurationScope } from 'vscode';
+import { contributedSettings } from './configValidation';
+
+/**
+ * What a running server needs after its settings changed, from the least to the most disruptive:
+ * - `none`: the extension reads the settings whenever it uses them.
+ * - `push`: the settings are read by the server. The language client sends them to the server, see `synchronize`.
+ * - `restart`: the settings are used to launch the server, so it has to be launched again with the same executable.
+ * - `resolve`: the settings decide which server executable and toolchain are used, so they have to be found again.
+ */
+export type ConfigChangeAction = 'none' | 'push' | 'restart' | 'resolve';
+
+/**
+ * Settings that are used to find the server executable and set up the toolchain.
+ */
+const toolchainSettings = [
+  'manageHLS',
+  'serverExecutablePath',
+  'ghcupExecutablePath',
+  'toolchain',
+  'toolchainLock',
+  'stackGhcManagement',
+  'cacheToolchain',
+  'offline',
+  'upgradeGHCup',
+  'releasesURL',
+  'metadataURL',
+  'releasesDownloadStoragePath',
+  'container.command',
+  'container.serverExecutable',
+  'container.pathMappings',
+];
+
+/**
+ * Settings that are used to launch the server and the client, see `initConfig`.
+ */
+const launchSettings = [
+  'serverExtraArgs',
+  'serverEnvironment',
+  'supportCabalFiles',
+  'trace.server',
+  'trace.client',
+  'trace.components',
+  'trace.redact',
+  'logFile',
+  'logRotation.maxSize',
+  'logRotation.maxFiles',
+  'crashRecovery.maxRestarts',
+  'crashRecovery.initialDelay',
+  'crashRecovery.stderrLines',
+];
+
+/**
+ * Settings of the extension that only matter when they are used, e.g. by a command.
+ */
+const clientSettings = [
+  'promptBeforeDownloads',
+  'openDocumentationInHackage',
+  'openSourceInHackage',
+  'documentationStyle',
+  'hackageBaseUrl',
+  'hoogle.database',
+];
+
+/**
+ * A change of the settings that applies to a server.
+ */
+export type ConfigChange = {
+  action: ConfigChangeAction;
+  /**
+   * The changed settings that call for the action, without the `haskell.` prefix.
+   */
+  settings: string[];
+};
+
+/**
+ * Determine how a server has to react to a change of the settings.
+ *
+ * @param event The change.
+ * @param scope The scope of the server, usually its workspace folder.
+ * @returns The most disruptive action any changed setting calls for, and the settings that call for it.
+ */
+export function classifyConfigChange(event: ConfigurationChangeEvent, scope?: ConfigurationScope): ConfigChange {
+  const changed = contributedSettings().filter((setting) => event.affectsConfiguration(`haskell.${setting}`, scope));
+  const actions: [ConfigChangeAction, string[]][] = [
+    ['resolve', changed.filter((setting) => toolchainSettings.includes(setting))],
+    ['restart', changed.filter((setting) => launchSettings.includes(setting))],
+    [
+      'push',
+      changed.filter(
+        (setting) =>
+          !toolchainSettings.includes(setting) &&
+          !launchSettings.includes(setting) &&
+          !clientSettings.includes(setting),
+      ),
+    ],
+  ];
+  const [action, settings] = actions.find(([_action, settings]) => settings.length > 0) ?? ['none', []];
+  return { action, settings };
+}
@@ -0,0 +1,275 @@
+import { commands, window, WorkspaceConfiguration, WorkspaceFolder } from 'vscode';
+import { parseRedactPatterns } from './redaction';
+import { parseCommandLine, substituteVariables } from './utils';
+
+/**
+ * The part of the JSON schema of a setting in `contributes.configuration` that is checked.
+ */
+type SettingSchema = {
+  type?: string | string[];
+  enum?: unknown[];
+  minimum?: number;
+  items?: SettingSchema;
+  properties?: { [key: string]: SettingSchema };
+  additionalProperties?: boolean | SettingSchema;
+  default?: unknown;
+};
+
+/**
+ * A setting with an invalid value.
+ */
+export type ConfigProblem = {
+  /**
+   * Name of the setting without the `haskell.` prefix, as passed to `WorkspaceConfiguration.get`.
+   */
+  setting: string;
+  message: string;
+};
+
+/**
+ * Schemas of the `haskell.*` settings by their name without the `haskell.` prefix.
+ */
+let settingSchemas: Map<string, SettingSchema> = new Map();
+
+/**
+ * Problems that were shown already, so that a setting shared by all workspace folders is only reported once.
+ */
+const reported: Set<string> = new Set();
+
+/**
+ * Read the schemas of the settings contributed by the extension.
+ *
+ * @param packageJSON The manifest of the extension.
+ */
+export function registerConfigSchema(packageJSON: unknown): void {
+  const configuration = (packageJSON as { contributes?: { configuration?: unknown } }).contributes?.configuration;
+  const sections = (Array.isArray(configuration) ? configuration : [configuration]) as {
+    properties?: { [setting: string]: SettingSchema };
+  }[];
+  settingSchemas = new Map(
+    sections
+      .flatMap((section) => Object.entries(section?.properties ?? {}))
+      .filter(([setting, _schema]) => setting.startsWith('haskell.'))
+      .map(([setting, schema]) => [setting.substring('haskell.'.length), schema]),
+  );
+}
+
+/**
+ * Names of the `haskell.*` settings without the `haskell.` prefix, in the order of the manifest.
+ */
+export function contributedSettings(): string[] {
+  return [...settingSchemas.keys()];
+}
+
+/**
+ * Settings whose value is a path with variables, see `substituteVariables`.
+ */
+const pathSettings = [
+  'serverExecutablePath',
+  'ghcupExecutablePath',
+  'releasesDownloadStoragePath',
+  'logFile',
+  'hoogle.database',
+];
+
+/**
+ * Check all `haskell.*` settings against their schema, and the settings whose values are interpreted further.
+ *
+ * @param workspaceConfig The `haskell` configuration of a workspace folder.
+ * @param folder The workspace folder, for substituting `${workspaceFolder}`.
+ * @returns The problems, in the order of the settings in the manifest.
+ */
+export function validateConfig(workspaceConfig: WorkspaceConfiguration, folder?: WorkspaceFolder): ConfigProblem[] {
+  const problems: ConfigProblem[] = [];
+  for (const [setting, schema] of settingSchemas) {
+    const value = workspaceConfig.get(setting);
+    const messages = problemsOf(value, schema, `haskell.${setting}`);
+    problems.push(...messages.map((message) => ({ setting, message: withFallback(message, value, schema) })));
+  }
+  const extraArgs = workspaceConfig.get('serverExtraArgs');
+  if (typeof extraArgs === 'string') {
+    try {
+      parseCommandLine(extraArgs);
+    } catch (err) {
+      problems.push({
+        setting: 'serverExtraArgs',
+        message: `"haskell.serverExtraArgs" can't be split into arguments: ${(err as Error).message}. It is ignored.`,
+      });
+    }
+  }
+  const { invalid } = parseRedactPatterns(workspaceConfig.get('trace.redact'));
+  problems.push(
+    ...invalid.map((pattern) => ({
+      setting: 'trace.redact',
+      message: `"haskell.trace.redact" contains the invalid regular expression ${JSON.stringify(pattern)}, it is ignored.`,
+    })),
+  );
+  problems.push(...substitutionProblems(workspaceConfig, folder));
+  return problems;
+}
+
+/**
+ * Variables that can't be substituted in the settings that support them.
+ */
+function substitutionProblems(workspaceConfig: WorkspaceConfiguration, folder?: WorkspaceFolder): ConfigProblem[] {
+  const extraArgs = validSetting<string | string[]>(workspaceConfig, 'serverExtraArgs');
+  const values: [string, string[]][] = [
+    ...pathSettings.map((setting): [string, string[]] => [setting, [validSetting<string>(workspaceConfig, setting)]]),
+    [
+      'serverEnvironment',
+      Object.values(validSetting<{ [name: string]: string }>(workspaceConfig, 'serverEnvironment') ?? {}),
+    ],
+    ['serverExtraArgs', Array.isArray(extraArgs) ? extraArgs : parseOrEmpty(extraArgs ?? '')],
+    ['container.pathMappings', Object.keys(validSetting<object>(workspaceConfig, 'container.pathMappings') ?? {})],
+  ];
+  return values.flatMap(([setting, settingValues]) =>
+    settingValues
+      .filter((value) => typeof value === 'string')
+      .flatMap((value) => {
+        try {
+          substituteVariables(value, `haskell.${setting}`, folder);
+          return [];
+        } catch (err) {
+          return [{ setting, message: `${(err as Error).message}.` }];
+        }
+      }),
+  );
+}
+
+function parseOrEmpty(commandLine: string): string[] {
+  try {
+    return parseCommandLine(commandLine);
+  } catch (_err) {
+    // reported on its own
+    return [];
+  }
+}
+
+/**
+ * The value of a setting, if it is valid. Otherwise, entries of objects that are invalid are dropped,
+ * and other values fall back to the default of the setting.
+ *
+ * @param workspaceConfig The `haskell` configuration of a workspace folder.
+ * @param setting Name of the setting without the `haskell.` prefix.
+ */
+export function validSetting<T>(workspaceConfig: WorkspaceConfiguration, setting: string): T {
+  const value = workspaceConfig.get<T>(setting) as T;
+  const schema = settingSchemas.get(setting);
+  if (!schema || problemsOf(value, schema, setting).length === 0) {
+    return value;
+  }
+  if (isObject(value) && hasType(value, schema)) {
+    return Object.fromEntries(
+      Object.entries(value).filter(([key, entry]) => {
+        const entrySchema = schemaOfKey(schema, key);
+        return entrySchema !== null && problemsOf(entry, entrySchema, key).length === 0;
+      }),
+    ) as T;
+  }
+  return schema.default as T;
+}
+
+/**
+ * Show configuration problems as warnings, each offering to open the setting.
+ *
+ * @param problems The problems.
+ * @param force Show problems that were shown before, e.g. when the user asked for a validation.
+ */
+export async function reportConfigProblems(problems: ConfigProblem[], force: boolean = false): Promise<void> {
+  const openSetting = 'Open setting';
+  await Promise.all(
+    problems
+      .filter((problem) => force || !reported.has(problem.message))
+      .map(async (problem) => {
+        reported.add(problem.message);
+        const decision = await window.showWarningMessage(problem.message, openSetting);
+        if (decision === openSetting) {
+          await commands.executeCommand('workbench.action.openSettings', `haskell.${problem.setting}`);
+        }
+      }),
+  );
+}
+
+function problemsOf(value: unknown, schema: SettingSchema, where: string): string[] {
+  // unset settings without default
+  if (value === undefined || value === null) {
+    return [];
+  }
+  if (!hasType(value, schema)) {
+    return [`"${where}" is expected to be of type ${types(schema).join(' or ')}, but is ${JSON.stringify(value)}.`];
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    const allowed = schema.enum.map((v) => JSON.stringify(v)).join(', ');
+    return [`"${where}" is expected to be one of ${allowed}, but is ${JSON.stringify(value)}.`];
+  }
+  if (typeof value === 'number' && schema.minimum !== undefined && value < schema.minimum) {
+    return [`"${where}" is expected to be at least ${schema.minimum}, but is ${value}.`];
+  }
+  if (Array.isArray(value) && schema.items) {
+    const items = schema.items;
+    return value.flatMap((item, i) => problemsOf(item, items, `${where}[${i}]`));
+  }
+  if (isObject(value)) {
+    return Object.entries(value).flatMap(([key, entry]) => {
+      const entrySchema = schemaOfKey(schema, key);
+      if (entrySchema === null) {
+        const known = Object.keys(schema.properties ?? {}).map((k) => JSON.stringify(k));
+        return [`"${where}" has the unknown key ${JSON.stringify(key)}, expected one of ${known.join(', ')}.`];
+      }
+      return problemsOf(entry, entrySchema, `${where}.${key}`);
+    });
+  }
+  return [];
+}
+
+/**
+ * The schema of an entry of an object, `{}` if it may be anything, or `null` if the key isn't allowed.
+ */
+function schemaOfKey(schema: SettingSchema, key: string): SettingSchema | null {
+  const property = schema.properties?.[key];
+  if (property) {
+    return property;
+  } else if (schema.additionalProperties === false) {
+    return null;
+  } else if (typeof schema.additionalProperties === 'object') {
+    return schema.additionalProperties;
+  }
+  return {};
+}
+
+/**
+ * Tell what is used instead of an invalid setting, see `validSetting`.
+ */
+function withFallback(message: string, value: unknown, schema: SettingSchema): string {
+  if (isObject(value) && hasType(value, schema)) {
+    return `${message} Invalid entries are ignored.`;
+  }
+  return `${message} Using the default ${JSON.stringify(schema.default)}.`;
+}
+
+function types(schema: SettingSchema): string[] {
+  return schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+}
+
+function hasType(value: unknown, schema: SettingSchema): boolean {
+  const expected = types(schema);
+  return (
+    expected.length === 0 ||
+    expected.some((type) => {
+      switch (type) {
+        case 'integer':
+          return Number.isInteger(value);
+        case 'array':
+          return Array.isArray(value);
+        case 'object':
+          return isObject(value);
+        default:
+          return typeof value === type;
+      }
+    })
+  );
+}
+
+function isObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,94 @@
+import * as path from 'path';
+import { Uri, WorkspaceFolder } from 'vscode';
+import { substituteVariables } from './utils';
+
+/**
+ * A directory on the host that is visible at a different path inside the container.
+ */
+export type PathMapping = {
+  host: string;
+  container: string;
+};
+
+/**
+ * Read the path mappings from the `haskell.container.pathMappings` setting.
+ *
+ * @param rawMappings Value of the setting, mapping host paths to container paths.
+ * @param folder Workspace folder. Used for resolving variables in the host paths.
+ * @returns The mappings, longest host path first, so that nested mappings win.
+ * @throws UndefinedVariableError if a variable in a host path can't be substituted.
+ */
+export function parsePathMappings(rawMappings: { [host: string]: string }, folder?: WorkspaceFolder): PathMapping[] {
+  return Object.entries(rawMappings)
+    .map(([host, container]) => ({
+      host: Uri.file(substituteVariables(host, 'haskell.container.pathMappings', folder)).path.replace(/\/$/, ''),
+      container: container.replace(/\/$/, ''),
+    }))
+    .sort((m1, m2) => m2.host.length - m1.host.length);
+}
+
+/**
+ * Translate a path on the host to the corresponding path inside the container.
+ * Paths that are not covered by any mapping are returned unchanged.
+ */
+export function hostToContainerPath(hostPath: string, mappings: PathMapping[]): string {
+  const uriPath = Uri.file(hostPath).path;
+  for (const mapping of mappings) {
+    const rest = stripPrefix(uriPath, mapping.host);
+    if (rest !== undefined) {
+      return mapping.container + rest;
+    }
+  }
+  return hostPath;
+}
+
+/**
+ * Translate `file:` URIs between VS Code, which sees the host file system,
+ * and a language server running inside a container.
+ *
+ * @param mappings Path mappings between host and container.
+ * @returns Converters for `LanguageClientOptions.uriConverters`.
+ */
+export function containerUriConverters(mappings: PathMapping[]): {
+  code2Protocol: (value: Uri) => string;
+  protocol2Code: (value: string) => Uri;
+} {
+  return {
+    code2Protocol: (uri: Uri) => {
+      if (uri.scheme === 'file') {
+        for (const mapping of mappings) {
+          const rest = stripPrefix(uri.path, mapping.host);
+          if (rest !== undefined) {
+            return uri.with({ path: path.posix.join(mapping.container, rest) }).toString();
+          }
+        }
+      }
+      return uri.toString();
+    },
+    protocol2Code: (value: string) => {
+      const uri = Uri.parse(value);
+      if (uri.scheme === 'file') {
+        for (const mapping of mappings) {
+          const rest = stripPrefix(uri.path, mapping.container);
+          if (rest !== undefined) {
+            return uri.with({ path: path.posix.join(mapping.host, rest) });
+          }
+        }
+      }
+      return uri;
+    },
+  };
+}
+
+/**
+ * Remove a directory prefix from a posix path.
+ * @returns The remainder of the path, starting with a `/` unless empty, or `undefined` if the path is not inside the directory.
+ */
+function stripPrefix(posixPath: string, directory: string): string | undefined {
+  if (posixPath === directory) {
+    return '';
+  } else if (posixPath.startsWith(directory + '/')) {
+    return posixPath.substring(directory.length);
+  }
+  return undefined;
+}
@@ -0,0 +1,221 @@
+import { OutputChannel, ViewColumn } from 'vscode';
+import {
+  CloseAction,
+  CloseHandlerResult,
+  ErrorAction,
+  ErrorHandler,
+  ErrorHandlerResult,
+  Logger,
+  Message,
+} from 'vscode-languageclient';
+import { Redactor } from './redaction';
+
+/**
+ * How to react when the language server exits unexpectedly.
+ */
+export type RestartPolicy = {
+  /**
+   * How often the server is restarted in a row before we give up.
+   */
+  maxRestarts: number;
+  /**
+   * Delay before the first restart in milliseconds. Doubles with every further attempt.
+   */
+  initialDelay: number;
+  /**
+   * Number of lines of the server's stderr to keep for crash reports.
+   */
+  stderrLines: number;
+};
+
+/**
+ * Upper bound for the delay between two restarts.
+ */
+const maxDelay = 60 * 1000;
+
+/**
+ * If the server ran for this long without crashing, we start counting restart attempts from zero again.
+ */
+const resetAfter = 5 * 60 * 1000;
+
+/**
+ * Restarts the language server with exponential backoff whenever the connection is closed unexpectedly.
+ *
+ * After {@link RestartPolicy.maxRestarts} attempts in a row, the server is not restarted anymore,
+ * and {@link onGiveUp} is invoked to let the user decide what to do.
+ */
+export class RestartWithBackoff implements ErrorHandler {
+  private attempts = 0;
+  private lastCrash = 0;
+
+  constructor(
+    readonly policy: RestartPolicy,
+    readonly logger: Logger,
+    readonly onCrash: () => void,
+    readonly onGiveUp: () => void,
+  ) {}
+
+  error(_error: Error, _message: Message | undefined, count: number | undefined): ErrorHandlerResult {
+    // Same as the default error handler of the language client.
+    if (count && count <= 3) {
+      return { action: ErrorAction.Continue };
+    }
+    return { action: ErrorAction.Shutdown };
+  }
+
+  async closed(): Promise<CloseHandlerResult> {
+    this.onCrash();
+    const now = Date.now();
+    if (now - this.lastCrash > resetAfter) {
+      this.attempts = 0;
+    }
+    this.lastCrash = now;
+
+    if (this.attempts >= this.policy.maxRestarts) {
+      this.logger.error(`The language server crashed ${this.attempts + 1} times in a row, not restarting it again.`);
+      // the server only runs again if the user restarts it, which starts counting from zero
+      this.attempts = 0;
+      this.lastCrash = 0;
+      this.onGiveUp();
+      return {
+        action: CloseAction.DoNotRestart,
+        message: 'The language server crashed too often and will not be restarted.',
+        handled: true,
+      };
+    }
+
+    const delay = Math.min(this.policy.initialDelay * 2 ** this.attempts, maxDelay);
+    this.attempts++;
+    this.logger.warn(
+      `The language server exited unexpectedly. Restart attempt ${this.attempts} of ${this.policy.maxRestarts} in ${delay}ms.`,
+    );
+    await new Promise((resolve) => setTimeout(resolve, delay));
+    return { action: CloseAction.Restart, handled: true };
+  }
+}
+
+/**
+ * Output channel that forwards everything to another channel,
+ * but remembers the last lines of the server's stderr.
+ *
+ * The language client writes the stderr of the server via {@link append},
+ * and its own messages via {@link appendLine}, so only the former are remembered.
+ */
+export class StderrCapturingChannel implements OutputChannel {
+  private readonly lines: string[] = [];
+  private partialLine = '';
+
+  constructor(
+    readonly channel: OutputChannel,
+    readonly maxLines: number,
+  ) {}
+
+  get name(): string {
+    return this.channel.name;
+  }
+
+  /**
+   * The last lines the server wrote to stderr, oldest first.
+   */
+  stderrTail(): string[] {
+    const lines = this.partialLine ? [...this.lines, this.partialLine] : this.lines;
+    return this.maxLines > 0 ? lines.slice(-this.maxLines) : [];
+  }
+
+  append(value: string): void {
+    this.channel.append(value);
+    const lines = (this.partialLine + value).split(/\r?\n/);
+    this.partialLine = lines.pop() ?? '';
+    this.lines.push(...lines);
+    this.lines.splice(0, Math.max(0, this.lines.length - this.maxLines));
+  }
+
+  appendLine(value: string): void {
+    this.channel.appendLine(value);
+  }
+
+  replace(value: string): void {
+    this.channel.replace(value);
+  }
+
+  clear(): void {
+    this.channel.clear();
+  }
+
+  show(columnOrPreserveFocus?: ViewColumn | boolean, preserveFocus?: boolean): void {
+    if (typeof columnOrPreserveFocus === 'boolean' || columnOrPreserveFocus === undefined) {
+      this.channel.show(columnOrPreserveFocus);
+    } else {
+      this.channel.show(columnOrPreserveFocus, preserveFocus);
+    }
+  }
+
+  hide(): void {
+    this.channel.hide();
+  }
+
+  dispose(): void {
+    this.channel.dispose();
+  }
+}
+
+/**
+ * Everything that goes into a crash report.
+ */
+export type CrashInfo = {
+  extensionVersion?: string;
+  hlsVersion?: string;
+  ghcVersion?: string;
+  /**
+   * How the HLS executable was found.
+   */
+  tag: string;
+  command: string;
+  workingDir: string;
+  /**
+   * Names of the extra environment variables passed to the server. Values are omitted, they may contain secrets.
+   */
+  environment: string[];
+  /**
+   * The configuration of the server, with secrets removed, see `redactConfig`.
+   */
+  config: object;
+  stderr: string[];
+  log: string[];
+};
+
+/**
+ * Render a crash report as markdown, ready to be pasted into an issue. Secrets and the home directory are redacted.
+ *
+ * @param info What goes into the report.
+ * @param redactor Removes secrets and the home directory from the report.
+ */
+export function crashReport(info: CrashInfo, redactor: Redactor): string {
+  const code = (lines: string[]) => ['```', ...lines, '```'].join('\n');
+  const report = [
+    '## Haskell language server crash report',
+    '',
+    `- Extension version: ${info.extensionVersion ?? '<unknown>'}`,
+    `- HLS version: ${info.hlsVersion ?? '<unknown>'}`,
+    `- GHC version: ${info.ghcVersion ?? '<unknown>'}`,
+    `- HLS found via: ${info.tag}`,
+    `- Platform: ${process.platform}-${process.arch}`,
+    `- Command: \`${info.command}\``,
+    `- Working directory: \`${info.workingDir}\``,
+    `- Extra environment variables: ${info.environment.length > 0 ? info.environment.join(', ') : '<none>'}`,
+    '',
+    '### Configuration',
+    '',
+    code(JSON.stringify(info.config, null, 2).split('\n')),
+    '',
+    '### Server stderr',
+    '',
+    code(info.stderr),
+    '',
+    '### Extension log',
+    '',
+    code(info.log),
+    '',
+  ].join('\n');
+  return redactor.redact(report);
+}
@@ -0,0 +1,172 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Logger } from 'vscode-languageclient';
+import { HlsError, MissingToolError } from './errors';
+import { callAsync, executableExists, IEnvVars, workspaceFolderOf } from './utils';
+
+/**
+ * Files describing the development environment of a project.
+ * If any of them changes, the cached environment is invalidated.
+ * `shell.nix` and `default.nix` are evaluated by `use nix` in an `.envrc`.
+ */
+export const devEnvFiles = ['.envrc', 'flake.nix', 'flake.lock', 'shell.nix', 'default.nix'];
+
+/**
+ * Variables of a Nix development shell that only make sense inside the build sandbox.
+ * This is the same list `nix develop` ignores.
+ */
+const ignoredNixVariables = [
+  'BASHOPTS',
+  'HOME',
+  'NIX_BUILD_TOP',
+  'NIX_ENFORCE_PURITY',
+  'NIX_LOG_FD',
+  'NIX_REMOTE',
+  'PPID',
+  'SHELL',
+  'SHELLOPTS',
+  'SSL_CERT_FILE',
+  'TEMP',
+  'TEMPDIR',
+  'TERM',
+  'TMP',
+  'TMPDIR',
+  'TZ',
+  'UID',
+];
+
+/**
+ * On-disk format of a cached development environment.
+ */
+type CachedDevEnv = {
+  key: string;
+  environment: IEnvVars;
+};
+
+/**
+ * Load the development environment of a project, as defined by direnv or a Nix flake.
+ *
+ * If the project has an `.envrc`, it is evaluated with `direnv`, otherwise the
+ * development shell of its `flake.nix` is evaluated with `nix print-dev-env`.
+ * Evaluating the environment can take a long time, so the result is cached
+ * until one of the {@link devEnvFiles} changes.
+ *
+ * @param workingDir Root of the project.
+ * @param storagePath Path to put in binary files and caches.
+ * @param logger Logger for feedback.
+ * @returns The environment variables of the development environment.
+ */
+export async function loadDevEnvironment(workingDir: string, storagePath: string, logger: Logger): Promise<IEnvVars> {
+  const key = devEnvKey(workingDir);
+  const cacheFile = path.join(
+    storagePath,
+    'devEnvCache',
+    `${crypto.createHash('sha256').update(workingDir).digest('hex')}.json`,
+  );
+  try {
+    const cached = JSON.parse(fs.readFileSync(cacheFile, { encoding: 'utf-8' })) as CachedDevEnv;
+    if (cached.key === key) {
+      logger.info(`Using cached development environment from ${cacheFile}`);
+      return cached.environment;
+    }
+    logger.info('The cached development environment is outdated');
+  } catch (_err) {
+    logger.info(`No cached development environment found at ${cacheFile}`);
+  }
+
+  let environment: IEnvVars;
+  if (fs.existsSync(path.join(workingDir, '.envrc'))) {
+    environment = await loadDirenvEnvironment(workingDir, logger);
+  } else if (fs.existsSync(path.join(workingDir, 'flake.nix'))) {
+    environment = await loadNixEnvironment(workingDir, logger);
+  } else {
+    throw new HlsError(
+      `Neither an '.envrc' nor a 'flake.nix' was found in ${workingDir}. Consider changing "haskell.manageHLS" in your settings.`,
+    );
+  }
+
+  await fs.promises.mkdir(path.dirname(cacheFile), { recursive: true });
+  const cached: CachedDevEnv = { key, environment };
+  await fs.promises.writeFile(cacheFile, JSON.stringify(cached), { encoding: 'utf-8' });
+  return environment;
+}
+
+/**
+ * Hash the files describing the development environment of a project.
+ */
+function devEnvKey(workingDir: string): string {
+  const hash = crypto.createHash('sha256');
+  for (const file of devEnvFiles) {
+    const filePath = path.join(workingDir, file);
+    hash.update(file);
+    if (fs.existsSync(filePath)) {
+      hash.update(fs.readFileSync(filePath));
+    }
+  }
+  return hash.digest('hex');
+}
+
+async function loadDirenvEnvironment(workingDir: string, logger: Logger): Promise<IEnvVars> {
+  if (!executableExists('direnv', undefined, workspaceFolderOf(workingDir))) {
+    throw new MissingToolError('direnv');
+  }
+  const output = await callAsync(
+    'direnv',
+    ['export', 'json'],
+    logger,
+    workingDir,
+    'Loading the direnv environment. This might take a while...',
+    true,
+    undefined,
+    (err, stdout, stderr, resolve, reject) => {
+      if (err) {
+        reject(
+          new HlsError(
+            `Could not load the direnv environment of ${workingDir}. Did you run 'direnv allow'?\n${stderr.trim()}`,
+          ),
+        );
+      } else {
+        resolve(stdout.trim());
+      }
+    },
+  );
+  // direnv prints nothing if the environment doesn't differ from ours
+  const exported = (output ? JSON.parse(output) : {}) as { [key: string]: string | null };
+  const environment: IEnvVars = {};
+  Object.entries(exported).forEach(([name, value]) => {
+    // null means direnv wants to unset the variable, we can't express that in the server's environment
+    if (value !== null && !name.startsWith('DIRENV_')) {
+      environment[name] = value;
+    }
+  });
+  logger.info(`Loaded ${Object.keys(environment).length} variables from direnv`);
+  return environment;
+}
+
+async function loadNixEnvironment(workingDir: string, logger: Logger): Promise<IEnvVars> {
+  if (!executableExists('nix', undefined, workspaceFolderOf(workingDir))) {
+    throw new MissingToolError('nix');
+  }
+  const output = await callAsync(
+    'nix',
+    ['--extra-experimental-features', 'nix-command flakes', 'print-dev-env', '--json'],
+    logger,
+    workingDir,
+    'Evaluating the Nix development shell. This might take a while...',
+    true,
+  );
+  const devEnv = JSON.parse(output) as { variables: { [key: string]: { type: string; value: unknown } } };
+  const environment: IEnvVars = {};
+  Object.entries(devEnv.variables).forEach(([name, variable]) => {
+    if (variable.type === 'exported' && typeof variable.value === 'string' && !ignoredNixVariables.includes(name)) {
+      environment[name] = variable.value;
+    }
+  });
+  // The PATH of the development shell only contains its inputs, 'nix develop' appends the PATH of the caller.
+  if (environment.PATH && process.env.PATH) {
+    environment.PATH = [environment.PATH, process.env.PATH].join(path.delimiter);
+  }
+  logger.info(`Loaded ${Object.keys(environment).length} variables from the Nix development shell`);
+  return environment;
+}
@@ -0,0 +1,135 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { version as vscodeVersion } from 'vscode';
+import { Logger } from 'vscode-languageclient';
+import { Config, redactConfig, redactEnvironment } from './config';
+import { describeError } from './errors';
+import { GHCup } from './ghcup';
+import { HlsExecutable } from './hlsBinaries';
+import { hostArch, hostPlatform } from './metadata';
+import { Redactor } from './redaction';
+import { callAsync, formatCommandLine, IEnvVars } from './utils';
+
+/**
+ * How many lines of each client log go into the report.
+ */
+const logLines = 100;
+
+/**
+ * What the report needs to know about the language server of a workspace folder.
+ */
+export type FolderReportInput = {
+  /**
+   * State of the server, as shown in the status bar.
+   */
+  status?: string;
+  config: Config;
+  hlsExecutable: HlsExecutable;
+  /**
+   * Command line the server is launched with.
+   */
+  serverCommand: [string, string[]];
+  /**
+   * Command line that runs the server executable with `--project-ghc-version`.
+   */
+  projectGhcCommand: [string, string[]];
+  /**
+   * Extra environment of the server.
+   */
+  environment: IEnvVars;
+  logger: Logger & { tail(lines: number): string[] };
+};
+
+/**
+ * Collect everything that helps with investigating a problem into a markdown document,
+ * ready to be attached to an issue. Secrets and the home directory are redacted.
+ *
+ * @param extensionVersion Version of the extension.
+ * @param folders The running language servers.
+ * @param ghcup GHCup wrapper, for listing the installed tools. `undefined` if ghcup isn't available.
+ * @param redactor Removes secrets and the home directory from the report.
+ * @param logger Logger for the commands run to collect the report.
+ */
+export async function generateDiagnosticsReport(
+  extensionVersion: string | undefined,
+  folders: FolderReportInput[],
+  ghcup: GHCup | undefined,
+  redactor: Redactor,
+  logger: Logger,
+): Promise<string> {
+  const sections: string[] = [
+    '## Haskell diagnostics report',
+    '',
+    `- Extension version: ${extensionVersion ?? '<unknown>'}`,
+    `- VS Code version: ${vscodeVersion}`,
+    `- Platform: ${process.platform}-${process.arch} (release metadata: ${hostPlatform() ?? '<unsupported>'}, ${hostArch() ?? '<unsupported>'})`,
+    `- Language servers: ${folders.length}`,
+    '',
+    '### ghcup list',
+    '',
+    code(
+      ghcup ? await outputOf(() => ghcup.call(['list', '-c', 'installed', '-r'], undefined, false)) : 'ghcup not found',
+    ),
+    '',
+  ];
+  for (const folder of folders) {
+    sections.push(...(await folderReport(folder, logger)));
+  }
+  return redactor.redact(sections.join('\n'));
+}
+
+async function folderReport(folder: FolderReportInput, logger: Logger): Promise<string[]> {
+  const { config, hlsExecutable } = folder;
+  const [command, args] = folder.projectGhcCommand;
+  const projectGhc = await outputOf(() =>
+    callAsync(command, args, logger, config.workingDir, undefined, false, folder.environment),
+  );
+  const hieYaml = fs.existsSync(path.join(config.workingDir, 'hie.yaml'));
+  return [
+    `### ${config.langName}`,
+    '',
+    `- Status: ${folder.status ?? '<unknown>'}`,
+    `- Working directory: \`${config.workingDir}\``,
+    `- hie.yaml: ${hieYaml ? 'present' : 'absent'}`,
+    `- Server command line: \`${formatCommandLine(...folder.serverCommand)}\``,
+    `- Project GHC version (\`${formatCommandLine(command, args)}\`): ${projectGhc.includes('\n') ? '' : projectGhc}`,
+    ...(projectGhc.includes('\n') ? ['', code(projectGhc)] : []),
+    '',
+    '#### Configuration',
+    '',
+    code(JSON.stringify(redactConfig(config), null, 2), 'json'),
+    '',
+    '#### HLS executable',
+    '',
+    code(
+      JSON.stringify(
+        'environment' in hlsExecutable
+          ? { ...hlsExecutable, environment: redactEnvironment(hlsExecutable.environment) }
+          : hlsExecutable,
+        null,
+        2,
+      ),
+      'json',
+    ),
+    '',
+    '#### Extension log',
+    '',
+    code(folder.logger.tail(logLines).join('\n')),
+    '',
+  ];
+}
+
+/**
+ * The output of a command, or the reason it failed.
+ */
+async function outputOf(run: () => Thenable<string>): Promise<string> {
+  try {
+    return (await run()).trim();
+  } catch (e) {
+    return `<failed: ${describeError(e)}>`;
+  }
+}
+
+function code(contents: string, language: string = ''): string {
+  return ['```' + language, contents, '```'].join('\n');
+}
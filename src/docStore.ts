@@ -0,0 +1,298 @@
+import * as child_process from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { promisify } from 'util';
+import { CancellationToken, ProgressLocation, QuickPickItem, Uri, window } from 'vscode';
+import { Logger } from 'vscode-languageclient';
+import { parsePackageId, projectPackageVersions } from './buildPlan';
+import { HlsError } from './errors';
+import { isStackProject } from './stack';
+import { callAsync, downloadFile, IEnvVars } from './utils';
+
+/**
+ * On-disk format of the index of the documentation store.
+ */
+type DocStoreIndex = {
+  version: 1;
+  /**
+   * Modules with documentation, by package id (`name-version`).
+   */
+  packages: { [packageId: string]: string[] };
+};
+
+/**
+ * The index of the documentation store, as long as the index file's modification time doesn't change.
+ */
+let cachedIndex: { file: string; mtimeMs: number; index: DocStoreIndex } | undefined;
+
+/**
+ * Directory of the documentation store, with a directory of haddock pages per package.
+ */
+export function docStoreDir(storagePath: string): string {
+  return path.join(storagePath, 'docs');
+}
+
+function indexPath(storagePath: string): string {
+  return path.join(docStoreDir(storagePath), 'index.json');
+}
+
+/**
+ * Read the index of the documentation store.
+ */
+export function readDocStoreIndex(storagePath: string): DocStoreIndex {
+  const file = indexPath(storagePath);
+  let mtimeMs: number;
+  try {
+    mtimeMs = fs.statSync(file).mtimeMs;
+  } catch (_err) {
+    return { version: 1, packages: {} };
+  }
+  if (cachedIndex?.file !== file || cachedIndex.mtimeMs !== mtimeMs) {
+    let index: DocStoreIndex;
+    try {
+      index = JSON.parse(fs.readFileSync(file, { encoding: 'utf-8' })) as DocStoreIndex;
+    } catch (_err) {
+      index = { version: 1, packages: {} };
+    }
+    cachedIndex = { file, mtimeMs, index };
+  }
+  return cachedIndex.index;
+}
+
+/**
+ * Find a documentation page in the documentation store.
+ *
+ * @param storagePath Path to put in binary files and caches.
+ * @param packageId Package the documentation belongs to, `name-version`.
+ * @param fileAndAnchor Path of the page relative to the package's documentation, possibly with an anchor.
+ * @returns `file:` URI of the page, or `undefined` if the store doesn't have it.
+ */
+export function storedDocumentation(storagePath: string, packageId: string, fileAndAnchor: string): string | undefined {
+  if (!readDocStoreIndex(storagePath).packages[packageId]) {
+    return undefined;
+  }
+  const [file, anchor] = fileAndAnchor.split('#', 2);
+  const page = path.join(docStoreDir(storagePath), packageId, file);
+  if (!fs.existsSync(page)) {
+    return undefined;
+  }
+  return Uri.file(page)
+    .with({ fragment: anchor ?? '' })
+    .toString(true);
+}
+
+/**
+ * Get the documentation of a project's dependencies, so that documentation links open locally
+ * even if the dependencies were built without documentation.
+ *
+ * The user picks whether to download the documentation from Hackage into the documentation store,
+ * or to build it with cabal or stack.
+ *
+ * @param workingDir Root of the project.
+ * @param environment Environment of the project's language server, for running cabal or stack.
+ * @param storagePath Path to put in binary files and caches.
+ * @param hackage Base URL of Hackage.
+ * @param offline Don't download anything, see `GHCupConfig.offline`.
+ * @param logger Logger for feedback.
+ */
+export async function fetchDependencyDocs(
+  workingDir: string,
+  environment: IEnvVars,
+  storagePath: string,
+  hackage: string,
+  offline: boolean,
+  logger: Logger,
+): Promise<void> {
+  if (offline) {
+    throw new HlsError('Offline mode: not fetching the documentation of the dependencies.');
+  }
+  const tool = isStackProject(workingDir) ? 'stack' : 'cabal';
+  const methods: (QuickPickItem & { download: boolean })[] = [
+    {
+      label: 'Download from Hackage',
+      description: 'Fast, into the storage of the extension',
+      download: true,
+    },
+    {
+      label: `Build with ${tool}`,
+      description: 'Also covers packages that are not on Hackage, but rebuilds the dependencies',
+      download: false,
+    },
+  ];
+  const method = await window.showQuickPick(methods, {
+    title: `Get the documentation of the dependencies of ${workingDir}`,
+  });
+  if (!method) {
+    return;
+  } else if (!method.download) {
+    await buildDependencyDocs(workingDir, environment, logger);
+    void window.showInformationMessage('Built the documentation of the dependencies.');
+    return;
+  }
+  const { stored, missing } = await downloadDependencyDocs(workingDir, environment, storagePath, hackage, logger);
+  if (missing.length > 0) {
+    void window.showWarningMessage(
+      `Downloaded the documentation of ${stored.length} dependencies. Could not get the documentation of ${missing.join(', ')}.`,
+    );
+  } else {
+    void window.showInformationMessage(`Downloaded the documentation of ${stored.length} dependencies.`);
+  }
+}
+
+/**
+ * Download the documentation of a project's dependencies from Hackage into the documentation store,
+ * skipping packages that are already in the store.
+ *
+ * @param workingDir Root of the project.
+ * @param environment Environment of the project's language server, for running cabal or stack.
+ * @param storagePath Path to put in binary files and caches.
+ * @param hackage Base URL of Hackage.
+ * @param logger Logger for feedback.
+ * @returns The ids of the packages whose documentation is now in the store, and of those Hackage has no documentation for.
+ */
+async function downloadDependencyDocs(
+  workingDir: string,
+  environment: IEnvVars,
+  storagePath: string,
+  hackage: string,
+  logger: Logger,
+): Promise<{ stored: string[]; missing: string[] }> {
+  const dependencies = await dependencyClosure(workingDir, environment, logger);
+  const index = readDocStoreIndex(storagePath);
+  const toDownload = dependencies.filter((id) => !index.packages[id]);
+  logger.info(
+    `${dependencies.length} dependencies, downloading the documentation of ${toDownload.length}: ${toDownload.join(', ')}`,
+  );
+  const storeDir = docStoreDir(storagePath);
+  await fs.promises.mkdir(storeDir, { recursive: true });
+
+  const missing: string[] = [];
+  await window.withProgress(
+    {
+      location: ProgressLocation.Notification,
+      title: 'Downloading documentation from Hackage',
+      cancellable: true,
+    },
+    async (progress, token: CancellationToken) => {
+      for (const id of toDownload) {
+        if (token.isCancellationRequested) {
+          break;
+        }
+        progress.report({ message: id, increment: 100 / toDownload.length });
+        try {
+          if (await downloadPackageDocs(id, storeDir, hackage, logger)) {
+            index.packages[id] = listModules(path.join(storeDir, id));
+          } else {
+            missing.push(id);
+          }
+        } catch (e) {
+          logger.warn(`Could not download the documentation of ${id}: ${e instanceof Error ? e.message : String(e)}`);
+          missing.push(id);
+        }
+      }
+    },
+  );
+
+  await fs.promises.writeFile(indexPath(storagePath), JSON.stringify(index), { encoding: 'utf-8' });
+  return { stored: dependencies.filter((id) => index.packages[id]), missing };
+}
+
+/**
+ * Build the documentation of a project's dependencies with cabal or stack.
+ * The documentation ends up next to the installed packages, where the language server links to it directly.
+ *
+ * @param workingDir Root of the project.
+ * @param environment Environment of the project's language server, for running cabal or stack.
+ * @param logger Logger for feedback.
+ */
+async function buildDependencyDocs(workingDir: string, environment: IEnvVars, logger: Logger): Promise<void> {
+  const [tool, args]: [string, string[]] = isStackProject(workingDir)
+    ? ['stack', ['build', '--only-dependencies', '--haddock', '--haddock-deps']]
+    : ['cabal', ['build', 'all', '--only-dependencies', '--enable-documentation']];
+  await callAsync(
+    tool,
+    args,
+    logger,
+    workingDir,
+    'Building the documentation of the dependencies. This might take a while...',
+    true,
+    environment,
+    (err, stdout, stderr, resolve, reject) => {
+      if (err) {
+        reject(new HlsError(`Could not build the documentation of the dependencies: ${stderr.trim() || err.message}`));
+      } else {
+        resolve(stdout.trim());
+      }
+    },
+  );
+}
+
+/**
+ * The ids (`name-version`) of all packages a project depends on, directly or indirectly.
+ */
+async function dependencyClosure(workingDir: string, environment: IEnvVars, logger: Logger): Promise<string[]> {
+  if (isStackProject(workingDir)) {
+    const output = await callAsync(
+      'stack',
+      ['ls', 'dependencies', '--separator', '-'],
+      logger,
+      workingDir,
+      'Listing the dependencies of the project',
+      true,
+      environment,
+    );
+    return output
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter((line) => parsePackageId(line));
+  }
+  let versions = projectPackageVersions(workingDir);
+  if (versions.size === 0) {
+    // a dry run is enough for cabal to write the build plan
+    await callAsync(
+      'cabal',
+      ['build', 'all', '--dry-run'],
+      logger,
+      workingDir,
+      'Working out the build plan of the project',
+      true,
+      environment,
+    );
+    versions = projectPackageVersions(workingDir);
+  }
+  if (versions.size === 0) {
+    throw new HlsError(`Could not work out the dependencies of ${workingDir}, there is no build plan.`);
+  }
+  return [...versions].map(([name, version]) => `${name}-${version}`);
+}
+
+/**
+ * Download and unpack the documentation tarball Hackage has for a package.
+ *
+ * @returns Whether Hackage has documentation for the package.
+ */
+async function downloadPackageDocs(id: string, storeDir: string, hackage: string, logger: Logger): Promise<boolean> {
+  const tarball = path.join(storeDir, `${id}-docs.tar`);
+  const url = `${hackage}/package/${id}/docs.tar`;
+  logger.info(`Downloading ${url}`);
+  if (!(await downloadFile(url, tarball))) {
+    logger.info(`Hackage has no documentation for ${id}`);
+    return false;
+  }
+  try {
+    // the tarball contains a single directory '<id>-docs'
+    await promisify(child_process.execFile)('tar', ['-xf', tarball, '-C', storeDir]);
+    await fs.promises.rm(path.join(storeDir, id), { recursive: true, force: true });
+    await fs.promises.rename(path.join(storeDir, `${id}-docs`), path.join(storeDir, id));
+  } finally {
+    await fs.promises.rm(tarball, { force: true });
+  }
+  return true;
+}
+
+function listModules(packageDocs: string): string[] {
+  return fs
+    .readdirSync(packageDocs)
+    .filter((f) => f.endsWith('.html') && f !== 'index.html' && f !== 'doc-index.html' && !f.startsWith('doc-index-'))
+    .map((f) => f.substring(0, f.length - '.html'.length).replace(/-/g, '.'));
+}
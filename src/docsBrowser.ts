@@ -1,4 +1,6 @@
-import { dirname } from 'path';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import { posix } from 'path';
 import {
   CancellationToken,
   commands,
@@ -15,63 +17,416 @@ import {
   TextDocument,
   Uri,
   ViewColumn,
+  WebviewPanel,
   window,
   workspace,
 } from 'vscode';
-import { ProvideCompletionItemsSignature, ProvideHoverSignature } from 'vscode-languageclient';
+import { Logger, Middleware, ProvideCompletionItemsSignature, ProvideHoverSignature } from 'vscode-languageclient';
+import { parsePackageId, projectPackageVersions } from './buildPlan';
+import { docStoreDir, storedDocumentation } from './docStore';
 
-async function showDocumentation({
-  title,
-  localPath,
-  hackageUri,
-}: {
-  title: string;
+/**
+ * A page in the documentation browser.
+ */
+type DocumentationPage = {
+  /**
+   * `file:` URI of the haddock page, possibly with an anchor.
+   */
   localPath: string;
   hackageUri: string;
-}) {
-  const arr = localPath.match(/([^/]+)\.[^.]+$/);
-  const ttl = arr !== null && arr.length === 2 ? arr[1].replace(/-/gi, '.') : title;
-  const documentationDirectory = dirname(localPath);
-  let panel;
-  try {
-    const docUri = Uri.parse(documentationDirectory);
+  title: string;
+};
+
+/**
+ * Messages sent by the script of the documentation panel.
+ */
+type PanelMessage =
+  | { command: 'navigate'; href: string }
+  | { command: 'openExternal'; href: string }
+  | { command: 'back' }
+  | { command: 'forward' };
+
+/**
+ * The documentation browser: a single webview panel that is reused for all documentation,
+ * with a history of visited pages and navigation of the links between haddock pages.
+ */
+class DocumentationPanel {
+  private readonly history: DocumentationPage[] = [];
+  private position = -1;
+  private readonly roots: Uri[] = [];
 
-    // Make sure to use Uri.parse here, as path will already have 'file:///' in it
-    panel = window.createWebviewPanel('haskell.showDocumentationPanel', ttl, ViewColumn.Beside, {
-      localResourceRoots: [docUri],
+  private constructor(readonly panel: WebviewPanel) {
+    panel.webview.onDidReceiveMessage((message: PanelMessage) => this.onMessage(message));
+    const configListener = workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration('haskell.documentationStyle') && this.position >= 0) {
+        void this.render();
+      }
+    });
+    panel.onDidDispose(() => {
+      configListener.dispose();
+    });
+  }
+
+  static create(): DocumentationPanel {
+    const panel = window.createWebviewPanel('haskell.showDocumentationPanel', 'Documentation', ViewColumn.Beside, {
       enableFindWidget: true,
-      enableCommandUris: true,
+      // the documentation itself comes from disk, only allow the commands we put in the page ourselves
+      enableCommandUris: ['haskell.openDocumentationOnHackage'],
       enableScripts: true,
+      retainContextWhenHidden: true,
     });
+    return new DocumentationPanel(panel);
+  }
+
+  /**
+   * Open a page, dropping the forward history.
+   */
+  async open(page: DocumentationPage): Promise<void> {
+    this.history.splice(this.position + 1);
+    this.history.push(page);
+    this.position = this.history.length - 1;
+    await this.render();
+    this.panel.reveal(undefined, true);
+  }
+
+  private async onMessage(message: PanelMessage): Promise<void> {
+    try {
+      switch (message.command) {
+        case 'navigate':
+          {
+            const page = this.resolve(message.href);
+            if (!isDocumentationPage(Uri.parse(page.localPath))) {
+              throw new Error(`Not opening ${page.localPath} in the documentation browser, it is not documentation.`);
+            }
+            await this.open(page);
+          }
+          break;
+        case 'openExternal':
+          {
+            // everything else, e.g. a `file:` link to an executable, would be opened by the operating system
+            const uri = Uri.parse(message.href);
+            if (isWebUri(uri)) {
+              await env.openExternal(uri);
+            }
+          }
+          break;
+        case 'back':
+        case 'forward':
+          {
+            const position = this.position + (message.command === 'back' ? -1 : 1);
+            if (0 <= position && position < this.history.length) {
+              this.position = position;
+              await this.render();
+            }
+          }
+          break;
+      }
+    } catch (e) {
+      if (e instanceof Error) {
+        await window.showErrorMessage(e.message);
+      }
+    }
+  }
 
-    const encoded = encodeURIComponent(JSON.stringify({ hackageUri, inWebView: true }));
-    const hackageCmd = 'command:haskell.openDocumentationOnHackage?' + encoded;
+  /**
+   * Resolve a link on the current page, relative to its local path and its Hackage URI.
+   */
+  private resolve(href: string): DocumentationPage {
+    if (/^file:/i.test(href)) {
+      // links to other packages may be absolute, e.g. into the cabal store or the documentation of GHC
+      const uri = Uri.parse(href);
+      const localUri = uri.with({ path: posix.normalize(uri.path) });
+      return { localPath: localUri.toString(true), hackageUri: hackageUriOfPage(localUri), title: href };
+    }
+    const current = this.history[this.position];
+    const localUri = Uri.parse(current.localPath);
+    const [target, anchor] = href.split('#', 2);
+    const localPath = localUri
+      .with({ path: posix.normalize(posix.join(posix.dirname(localUri.path), target)), fragment: anchor ?? '' })
+      .toString(true);
+    // links to other packages look like '../other-package-1.0/Module.html', which Hackage puts in another 'docs' folder
+    const otherPackage = /^\.\.\/([^/]+)\/(.*)$/.exec(href);
+    const hackageUri = otherPackage
+      ? new URL(`../../${otherPackage[1]}/docs/${otherPackage[2]}`, current.hackageUri).toString()
+      : new URL(href, current.hackageUri).toString();
+    return { localPath, hackageUri, title: href };
+  }
 
-    const bytes = await workspace.fs.readFile(Uri.parse(localPath));
+  private async render(): Promise<void> {
+    const page = this.history[this.position];
+    const uri = Uri.parse(page.localPath);
+    const file = uri.with({ fragment: '' });
+    const directory = Uri.joinPath(file, '..');
+    if (!this.roots.some((root) => root.toString() === directory.toString())) {
+      this.roots.push(directory);
+      this.panel.webview.options = { ...this.panel.webview.options, localResourceRoots: this.roots };
+    }
 
-    const addBase = `
-          <base href="${panel.webview.asWebviewUri(Uri.parse(documentationDirectory)).toString()}/">
-          `;
+    const html = (await workspace.fs.readFile(file)).toString();
+    const head = /<head[^>]*>([\s\S]*?)<\/head>/i.exec(html)?.[1] ?? '';
+    const body = sanitizeHtml(/<body[^>]*>([\s\S]*)<\/body>/i.exec(html)?.[1] ?? html);
+    const style = workspace.getConfiguration('haskell').get('documentationStyle') as DocumentationStyle;
+    // haddock's own stylesheets, for the native look
+    const stylesheets =
+      style === 'haddock'
+        ? sanitizeHtml((head.match(/<link\b[^>]*\brel=["']?stylesheet\b[^>]*>/gi) ?? []).join('\n'))
+        : '';
+    const nonce = crypto.randomBytes(16).toString('base64');
+    const csp = [
+      "default-src 'none'",
+      // no remote images, they would tell the server which documentation is being read
+      `img-src ${this.panel.webview.cspSource} data:`,
+      `style-src ${this.panel.webview.cspSource} 'nonce-${nonce}'`,
+      `font-src ${this.panel.webview.cspSource}`,
+      `script-src 'nonce-${nonce}'`,
+    ].join('; ');
+    const breadcrumb = documentationBreadcrumb(file, html);
+    this.panel.title = breadcrumb[breadcrumb.length - 1] ?? page.title;
 
-    panel.webview.html = `
+    const hackageCmd =
+      'command:haskell.openDocumentationOnHackage?' +
+      encodeURIComponent(JSON.stringify({ hackageUri: page.hackageUri, inWebView: true }));
+    const disabled = (enabled: boolean) => (enabled ? '' : ' disabled');
+    this.panel.webview.html = `
           <html>
-          ${addBase}
+          <head>
+          <meta http-equiv="Content-Security-Policy" content="${csp}">
+          <base href="${this.panel.webview.asWebviewUri(directory).toString()}/">
+          ${stylesheets}
+          <style nonce="${nonce}">
+            #haskell-docs-toolbar { display: flex; gap: 0.5em; align-items: center; padding: 0.3em 0; }
+            #haskell-docs-toolbar .breadcrumb { flex-grow: 1; }
+            ${style === 'haddock' ? '' : editorThemeStylesheet}
+          </style>
+          </head>
           <body>
-          <div><a href="${hackageCmd}">Open on Hackage</a></div>
-          ${bytes.toString()}
+          <div id="haskell-docs-toolbar">
+            <button data-command="back"${disabled(this.position > 0)}>&larr;</button>
+            <button data-command="forward"${disabled(this.position < this.history.length - 1)}>&rarr;</button>
+            <span class="breadcrumb">${breadcrumb.map(escapeHtml).join(' &rsaquo; ')}</span>
+            <a href="index.html">Contents</a>
+            <a href="doc-index.html">Index</a>
+            <a href="${hackageCmd}">Open on Hackage</a>
+          </div>
+          ${body}
+          <script nonce="${nonce}">${navigationScript(uri.fragment)}</script>
           </body>
           </html>
           `;
+  }
+}
+
+/**
+ * The documentation browser, if it is open.
+ */
+let documentationPanel: DocumentationPanel | undefined;
+
+async function showDocumentation({
+  title,
+  localPath,
+  hackageUri,
+}: {
+  title: string;
+  localPath: string;
+  hackageUri: string;
+}) {
+  try {
+    if (!documentationPanel) {
+      const created = DocumentationPanel.create();
+      created.panel.onDidDispose(() => {
+        documentationPanel = undefined;
+      });
+      documentationPanel = created;
+    }
+    await documentationPanel.open({ title, localPath, hackageUri });
   } catch (e) {
     if (e instanceof Error) {
       await window.showErrorMessage(e.message);
     }
   }
-  return panel;
+  return documentationPanel?.panel;
+}
+
+/**
+ * Whether the documentation browser may show a local file: a haddock page in a `doc` directory,
+ * where GHC, cabal and stack install documentation, or in the documentation store.
+ */
+function isDocumentationPage(uri: Uri): boolean {
+  if (uri.scheme !== 'file' || !uri.path.endsWith('.html')) {
+    return false;
+  }
+  const store = docsStoragePath ? Uri.file(docStoreDir(docsStoragePath)).path + '/' : undefined;
+  return uri.path.split('/').includes('doc') || (store !== undefined && uri.path.startsWith(store));
+}
+
+/**
+ * The Hackage URI of a local haddock page, e.g. `.../text-2.0.2-1a2b3c4d/share/doc/html/Data-Text.html`,
+ * from the package directory it is in.
+ */
+function hackageUriOfPage(uri: Uri): string {
+  const segments = uri.path.split('/');
+  const packageIndex = segments.findLastIndex(
+    (segment, i) => i < segments.length - 1 && parsePackageId(segment) !== undefined,
+  );
+  const id = packageIndex >= 0 ? parsePackageId(segments[packageIndex]) : undefined;
+  if (!id) {
+    return hackageBaseUrl();
+  }
+  const inPackage = segments.slice(packageIndex + 1);
+  const page = inPackage.slice(inPackage.lastIndexOf('html') + 1).join('/');
+  return `${hackageBaseUrl()}/package/${id.name}-${id.version}/docs/${page}` + (uri.fragment ? `#${uri.fragment}` : '');
+}
+
+/**
+ * Work out the package and module of a haddock page, from the captions haddock puts in the page,
+ * falling back to the file name.
+ */
+function documentationBreadcrumb(file: Uri, html: string): string[] {
+  const packageCaption = /<div id="package-header">[\s\S]*?<span class="caption">([^<]*)<\/span>/.exec(html)?.[1];
+  const moduleCaption = /<div id="module-header">[\s\S]*?<p class="caption">([^<]*)<\/p>/.exec(html)?.[1];
+  const fileName = posix.basename(file.path, '.html');
+  const page =
+    moduleCaption ??
+    (fileName === 'index' ? 'Contents' : fileName === 'doc-index' ? 'Index' : fileName.replace(/-/g, '.'));
+  return [...(packageCaption ? [packageCaption.split(':')[0]] : []), page];
+}
+
+/**
+ * Remove everything from a haddock page that could run code in the panel:
+ * scripts, embedded content, event handler attributes, `javascript:` URLs and `command:` links,
+ * which only the toolbar of the panel may contain.
+ */
+export function sanitizeHtml(html: string): string {
+  return html
+    .replace(/<script\b[\s\S]*?<\/script\s*>/gi, '')
+    .replace(/<(script|iframe|frame|object|embed|base|meta|form)\b[^>]*>/gi, '')
+    .replace(/<\/(iframe|frame|object|embed|form)\s*>/gi, '')
+    .replace(/\s+on[a-z]+\s*=\s*("[^"]*"|'[^']*'|[^\s>]+)/gi, '')
+    .replace(/(href|src|action)\s*=\s*(["']?)\s*(javascript|vbscript|data|command):[^"'\s>]*\2/gi, '$1="#"');
+}
+
+/**
+ * How the documentation panel looks: like haddock's own HTML, or like the rest of the editor.
+ */
+type DocumentationStyle = 'haddock' | 'editor';
+
+/**
+ * Styles haddock's HTML with the colors and fonts of the current editor theme.
+ */
+const editorThemeStylesheet = `
+  body {
+    background-color: var(--vscode-editor-background);
+    color: var(--vscode-editor-foreground);
+    font-family: var(--vscode-font-family);
+    font-size: var(--vscode-font-size);
+  }
+  a, a:link, a:visited, .selflink { color: var(--vscode-textLink-foreground); text-decoration: none; }
+  a:hover { color: var(--vscode-textLink-activeForeground); text-decoration: underline; }
+  #package-header {
+    background-color: var(--vscode-sideBar-background);
+    color: var(--vscode-sideBar-foreground);
+    padding: 0.3em 0.5em;
+  }
+  #package-header ul.links { float: right; list-style: none; margin: 0; padding: 0; }
+  #package-header ul.links li { display: inline; margin-left: 1em; }
+  #module-header .caption { font-size: 1.6em; font-weight: bold; }
+  #module-header table.info, #table-of-contents, #synopsis details {
+    background-color: var(--vscode-editorWidget-background);
+    border: 1px solid var(--vscode-widget-border, var(--vscode-panel-border));
+  }
+  pre, code, tt, .src {
+    font-family: var(--vscode-editor-font-family);
+    font-size: var(--vscode-editor-font-size);
+  }
+  pre, .src {
+    background-color: var(--vscode-textCodeBlock-background);
+    display: block;
+    padding: 0.3em 0.5em;
+  }
+  .keyword { color: var(--vscode-debugTokenExpression-name); font-weight: normal; }
+  .def { font-weight: bold; }
+  .top { margin-top: 1.5em; border-top: 1px solid var(--vscode-panel-border); padding-top: 0.5em; }
+  .subs, .doc { padding-left: 1.5em; }
+  table { border-collapse: collapse; }
+  td, th { border-color: var(--vscode-panel-border); }
+  .warning { color: var(--vscode-editorWarning-foreground); }
+  .hs-keyword { color: var(--vscode-debugTokenExpression-name); }
+  .hs-conid, .hs-type { color: var(--vscode-symbolIcon-classForeground); }
+  .hs-str, .hs-chr { color: var(--vscode-debugTokenExpression-string); }
+  .hs-num { color: var(--vscode-debugTokenExpression-number); }
+  .hs-comment { color: var(--vscode-descriptionForeground); font-style: italic; }
+  .hs-cpp, .hs-pragma { color: var(--vscode-debugTokenExpression-boolean); }
+  #haskell-docs-toolbar {
+    border-bottom: 1px solid var(--vscode-panel-border);
+  }
+  #haskell-docs-toolbar button {
+    background-color: var(--vscode-button-secondaryBackground);
+    color: var(--vscode-button-secondaryForeground);
+    border: none;
+    padding: 0.2em 0.6em;
+  }
+  #haskell-docs-toolbar button:disabled { opacity: 0.5; }
+`;
+
+/**
+ * Script of the documentation panel: sends links between pages to the extension,
+ * so that they are opened in the same panel and end up in the history, and scrolls to anchors.
+ */
+function navigationScript(anchor: string): string {
+  return `
+    const vscode = acquireVsCodeApi();
+    function scrollToAnchor(anchor) {
+      const target = anchor && document.getElementById(decodeURIComponent(anchor));
+      if (target) {
+        target.scrollIntoView();
+      }
+    }
+    document.querySelectorAll('#haskell-docs-toolbar button').forEach((button) =>
+      button.addEventListener('click', () => vscode.postMessage({ command: button.dataset.command })),
+    );
+    document.addEventListener('click', (event) => {
+      const link = event.target instanceof Element ? event.target.closest('a[href]') : null;
+      if (!link) {
+        return;
+      }
+      const href = link.getAttribute('href');
+      // only the toolbar runs commands, command links in the documentation are ignored like other schemes
+      if (href.startsWith('command:') && link.closest('#haskell-docs-toolbar')) {
+        return;
+      }
+      event.preventDefault();
+      if (href.startsWith('#')) {
+        scrollToAnchor(href.substring(1));
+      } else if (/^https?:/i.test(href)) {
+        vscode.postMessage({ command: 'openExternal', href });
+      } else if (/^file:/i.test(href) || !/^[a-z][a-z0-9+.-]*:/i.test(href)) {
+        vscode.postMessage({ command: 'navigate', href });
+      }
+      // links with any other scheme are ignored
+    });
+    scrollToAnchor(${JSON.stringify(anchor)});
+  `;
+}
+
+/**
+ * Whether a URI may be handed to the operating system to open, other schemes could start any program.
+ */
+function isWebUri(uri: Uri): boolean {
+  return uri.scheme === 'http' || uri.scheme === 'https';
 }
 
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Storage path of the extension, where the documentation store lives.
+ */
+let docsStoragePath: string | undefined;
+
 // registers the browser in VSCode infrastructure
-export function registerDocsBrowser(): Disposable {
+export function registerDocsBrowser(storagePath: string): Disposable {
+  docsStoragePath = storagePath;
   return commands.registerCommand('haskell.showDocumentation', showDocumentation);
 }
 
@@ -83,8 +438,12 @@ async function openDocumentationOnHackage({
   inWebView: boolean;
 }) {
   try {
+    const uri = Uri.parse(hackageUri);
+    if (!isWebUri(uri)) {
+      throw new Error(`Not opening ${hackageUri}, it is not a web page.`);
+    }
     // open on Hackage and close the original webview in VS code
-    await env.openExternal(Uri.parse(hackageUri));
+    await env.openExternal(uri);
     if (inWebView) {
       await commands.executeCommand('workbench.action.closeActiveEditor');
     }
@@ -99,16 +458,31 @@ export function registerDocsOpenOnHackage(): Disposable {
   return commands.registerCommand('haskell.openDocumentationOnHackage', openDocumentationOnHackage);
 }
 
+/**
+ * Middleware that points the documentation links in hovers and completions to the documentation browser or Hackage.
+ *
+ * @param logger Logger for the rewritten links.
+ */
+export function linksMiddleware(logger: Logger): Pick<Middleware, 'provideHover' | 'provideCompletionItem'> {
+  return {
+    provideHover: (document, position, token, next) =>
+      hoverLinksMiddlewareHook(document, position, token, next, logger),
+    provideCompletionItem: (document, position, context, token, next) =>
+      completionLinksMiddlewareHook(document, position, context, token, next, logger),
+  };
+}
+
 export function hoverLinksMiddlewareHook(
   document: TextDocument,
   position: Position,
   token: CancellationToken,
   next: ProvideHoverSignature,
+  logger?: Logger,
 ): ProviderResult<Hover> {
   const res = next(document, position, token);
   return Promise.resolve(res).then((r) => {
     if (r !== null && r !== undefined) {
-      r.contents = r.contents.map(processLink);
+      r.contents = r.contents.map((ms) => processLink(ms, document, logger));
     }
     return r;
   });
@@ -120,12 +494,13 @@ export function completionLinksMiddlewareHook(
   context: CompletionContext,
   token: CancellationToken,
   next: ProvideCompletionItemsSignature,
+  logger?: Logger,
 ): ProviderResult<CompletionItem[] | CompletionList> {
   const res = next(document, position, context, token);
 
   function processCI(ci: CompletionItem): void {
     if (ci.documentation) {
-      ci.documentation = processLink(ci.documentation);
+      ci.documentation = processLink(ci.documentation, document, logger);
     }
   }
 
@@ -139,33 +514,104 @@ export function completionLinksMiddlewareHook(
   });
 }
 
-function processLink(ms: MarkdownString | MarkedString): string | MarkdownString {
+/**
+ * Base URL of Hackage, or of a mirror configured in `haskell.hackageBaseUrl`, without a trailing slash.
+ */
+export function hackageBaseUrl(): string {
+  const configured = workspace.getConfiguration('haskell').get('hackageBaseUrl') as string;
+  return (configured || 'https://hackage.haskell.org').replace(/\/+$/, '');
+}
+
+/**
+ * Work out the package and version that the local documentation at `localPath` belongs to,
+ * so that Hackage links point to the documentation of the version we are compiling against.
+ *
+ * The version is taken from the directory of the package in the documentation path (e.g. `.../base-4.18.2.1/Prelude.html`
+ * or `.../store/ghc-9.6.6/text-2.0.2-1a2b3c4d/share/doc/html/...`), falling back to the build plan of the project.
+ * Other directories that look like a package, such as `ghc-9.6.6`, are skipped.
+ *
+ * @param localPath `file:` URI of the documentation.
+ * @param packageName Package name guessed from the documentation path.
+ * @param workingDir Root of the project the documentation link was shown for, if any.
+ * @returns `name-version` if the version is known, otherwise just the name.
+ */
+export function hackagePackageId(localPath: string, packageName: string, workingDir: string | undefined): string {
+  const segments = Uri.parse(localPath).path.split('/');
+  // the cabal store has the documentation in `<name>-<version>-<hash>/share/doc/html`, so the guess is `html`
+  const storePackage = packageName === 'html' ? segments[segments.lastIndexOf('share') - 1] : undefined;
+  const name = parsePackageId(storePackage ?? packageName)?.name ?? packageName;
+  const fromPath = segments
+    .reverse()
+    .map(parsePackageId)
+    .find((id) => id?.name === name);
+  if (fromPath) {
+    return `${fromPath.name}-${fromPath.version}`;
+  }
+  const version = workingDir ? projectPackageVersions(workingDir).get(name) : undefined;
+  return version ? `${name}-${version}` : name;
+}
+
+/**
+ * Find the local documentation for a link: the documentation installed with the package if it exists,
+ * otherwise the documentation downloaded to the documentation store.
+ *
+ * @param localPath `file:` URI the language server links to.
+ * @param packageId Package the documentation belongs to, `name-version`.
+ * @param fileAndAnchor Path of the page relative to the package's documentation, possibly with an anchor.
+ * @returns `file:` URI of the documentation, or `undefined` if there is no local documentation.
+ */
+function localDocumentation(localPath: string, packageId: string, fileAndAnchor: string): string | undefined {
+  if (fs.existsSync(Uri.parse(localPath).fsPath)) {
+    return localPath;
+  }
+  return docsStoragePath ? storedDocumentation(docsStoragePath, packageId, fileAndAnchor) : undefined;
+}
+
+function processLink(
+  ms: MarkdownString | MarkedString,
+  document: TextDocument,
+  logger?: Logger,
+): string | MarkdownString {
   const openDocsInHackage = workspace.getConfiguration('haskell').get('openDocumentationInHackage');
   const openSourceInHackage = workspace.getConfiguration('haskell').get('openSourceInHackage');
+  const hackage = hackageBaseUrl();
   function transform(s: string): string {
     return s.replace(
       /\[(.+)\]\((file:.+\/doc\/(?:.*html\/libraries\/)?([^/]+)\/(?:.*\/)?(.+\.html#?.*))\)/gi,
-      (_all, title, localPath, packageName, fileAndAnchor) => {
+      (_all, title, localPath: string, guessedPackageName: string, fileAndAnchor: string) => {
+        const packageName = hackagePackageId(
+          localPath,
+          guessedPackageName,
+          workspace.getWorkspaceFolder(document.uri)?.uri.fsPath,
+        );
         let hackageUri: string;
         if (title === 'Documentation') {
-          hackageUri = `https://hackage.haskell.org/package/${packageName}/docs/${fileAndAnchor}`;
-          const encoded = encodeURIComponent(JSON.stringify({ title, localPath, hackageUri }));
+          hackageUri = `${hackage}/package/${packageName}/docs/${fileAndAnchor}`;
+          const docPath = openDocsInHackage ? undefined : localDocumentation(localPath, packageName, fileAndAnchor);
+          const encoded = encodeURIComponent(JSON.stringify({ title, localPath: docPath ?? localPath, hackageUri }));
           let cmd: string;
-          if (openDocsInHackage) {
+          if (openDocsInHackage || !docPath) {
             cmd = 'command:haskell.openDocumentationOnHackage?' + encoded;
+            logger?.log(`Documentation link ${localPath} opens ${hackageUri}`);
           } else {
             cmd = 'command:haskell.showDocumentation?' + encoded;
+            logger?.log(`Documentation link ${localPath} opens ${docPath}`);
           }
           return `[${title}](${cmd})`;
         } else if (title === 'Source' && typeof fileAndAnchor === 'string') {
           const moduleLocation = fileAndAnchor.replace(/-/gi, '.');
-          hackageUri = `https://hackage.haskell.org/package/${packageName}/docs/src/${moduleLocation}`;
-          const encoded = encodeURIComponent(JSON.stringify({ title, localPath, hackageUri }));
+          hackageUri = `${hackage}/package/${packageName}/docs/src/${moduleLocation}`;
+          const docPath = openSourceInHackage
+            ? undefined
+            : localDocumentation(localPath, packageName, `src/${moduleLocation}`);
+          const encoded = encodeURIComponent(JSON.stringify({ title, localPath: docPath ?? localPath, hackageUri }));
           let cmd: string;
-          if (openSourceInHackage) {
+          if (openSourceInHackage || !docPath) {
             cmd = 'command:haskell.openDocumentationOnHackage?' + encoded;
+            logger?.log(`Source link ${localPath} opens ${hackageUri}`);
           } else {
             cmd = 'command:haskell.showDocumentation?' + encoded;
+            logger?.log(`Source link ${localPath} opens ${docPath}`);
           }
           return `[${title}](${cmd})`;
         } else {
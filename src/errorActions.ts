@@ -0,0 +1,150 @@
+import { ConfigurationTarget, env, QuickPickItem, window, workspace, WorkspaceFolder } from 'vscode';
+import { Logger } from 'vscode-languageclient';
+import { describeError, MissingToolError, NoMatchingHls, UserCancelledError } from './errors';
+import { GHCupConfig, initDefaultGHCup } from './ghcup';
+import { ManageHLS } from './hlsBinaries';
+import { comparePVP } from './utils';
+
+/**
+ * What the quick fixes of an error need to know about the workspace folder whose server failed to start.
+ */
+export type ErrorFixContext = {
+  folder?: WorkspaceFolder;
+  ghcupConfig: GHCupConfig;
+  manageHls: ManageHLS;
+};
+
+/**
+ * Whether quick fixes may install tools with ghcup. Only tools of a toolchain that ghcup manages are picked up,
+ * ghcup runs the server with them, other modes look for tools on the PATH. Offline, nothing can be installed.
+ */
+export function canInstallWithGhcup(fix?: ErrorFixContext): fix is ErrorFixContext {
+  return fix !== undefined && fix.manageHls === 'GHCup' && !fix.ghcupConfig.offline;
+}
+
+/**
+ * Show a missing tool error, offering to install the tool with ghcup if ghcup can install it,
+ * or to open its installation instructions otherwise.
+ *
+ * @param e The error.
+ * @param logger Logger for feedback.
+ * @param fix Workspace folder of the failed server. Without it, only the installation instructions are offered.
+ * @returns Whether the tool was installed, so that starting the server again may succeed.
+ */
+export async function offerMissingToolFixes(
+  e: MissingToolError,
+  logger: Logger,
+  fix?: ErrorFixContext,
+): Promise<boolean> {
+  const tool = e.ghcupTool();
+  const link = e.installLink();
+  const installViaGHCup = 'Install via GHCup';
+  const openInstructions = `Install ${e.tool}`;
+  const actions = [...(tool && canInstallWithGhcup(fix) ? [installViaGHCup] : []), ...(link ? [openInstructions] : [])];
+  const decision = await window.showErrorMessage(e.message, ...actions);
+  if (decision === openInstructions && link) {
+    env.openExternal(link);
+  } else if (decision === installViaGHCup && tool && fix) {
+    return applyFix(logger, async () => {
+      const ghcup = initDefaultGHCup(fix.ghcupConfig, logger, fix.folder);
+      // don't change the default version of the user, ghcup runs the server with the versions it needs
+      await ghcup.install(tool, 'recommended');
+      logger.info(`Installed the recommended version of ${e.tool} via GHCup`);
+    });
+  }
+  return false;
+}
+
+/**
+ * Show that no HLS supports the GHC version of a project, offering to switch to a supported toolchain.
+ *
+ * @param e The error.
+ * @param logger Logger for feedback.
+ * @param fix Workspace folder of the failed server. Without it, only the documentation is offered.
+ * @returns Whether the toolchain was changed, so that starting the server again may succeed.
+ */
+export async function offerNoMatchingHlsFixes(
+  e: NoMatchingHls,
+  logger: Logger,
+  fix?: ErrorFixContext,
+): Promise<boolean> {
+  const hlsVersions = [...e.supportedGhcs.keys()].sort((v1, v2) => comparePVP(v2, v1));
+  const newestGhc = hlsVersions.length > 0 ? newest(e.supportedGhcs.get(hlsVersions[0]) ?? []) : undefined;
+  const installNewest = `Install GHC ${newestGhc}`;
+  const pinGhc = 'Pin GHC';
+  const olderHls = 'Use an older HLS';
+  const openDocumentation = 'Open documentation';
+  const actions = [
+    ...(canInstallWithGhcup(fix) && newestGhc ? [installNewest] : []),
+    ...(fix && newestGhc ? [pinGhc, olderHls] : []),
+    openDocumentation,
+  ];
+  const decision = await window.showErrorMessage(e.message, ...actions);
+  if (decision === openDocumentation) {
+    env.openExternal(e.docLink());
+  } else if (fix && decision === installNewest && newestGhc) {
+    return applyFix(logger, async () => {
+      const ghcup = initDefaultGHCup(fix.ghcupConfig, logger, fix.folder);
+      // pin it for the project instead of changing the default GHC of the user
+      await ghcup.install('ghc', newestGhc);
+      await pinToolchain(fix.folder, { ghc: newestGhc });
+      logger.info(`Installed and pinned GHC ${newestGhc}, the newest GHC supported by HLS ${hlsVersions[0]}`);
+    });
+  } else if (fix && decision === pinGhc) {
+    const ghc = await pickGhc(
+      [...new Set([...e.supportedGhcs.values()].flat())],
+      `GHC version for ${fix.folder?.name ?? 'the project'}`,
+    );
+    return ghc ? applyFix(logger, () => pinToolchain(fix.folder, { ghc })) : false;
+  } else if (fix && decision === olderHls) {
+    const items: (QuickPickItem & { hls: string })[] = hlsVersions.map((hls) => ({
+      label: hls,
+      description: `GHC ${[...(e.supportedGhcs.get(hls) ?? [])].sort((v1, v2) => comparePVP(v2, v1)).join(', ')}`,
+      hls,
+    }));
+    const picked = await window.showQuickPick(items, { title: 'HLS version' });
+    const ghc = picked
+      ? await pickGhc(e.supportedGhcs.get(picked.hls) ?? [], `GHC version for HLS ${picked.hls}`)
+      : undefined;
+    return picked && ghc ? applyFix(logger, () => pinToolchain(fix.folder, { hls: picked.hls, ghc })) : false;
+  }
+  return false;
+}
+
+/**
+ * Run a quick fix, reporting failures.
+ *
+ * @returns Whether the fix succeeded.
+ */
+async function applyFix(logger: Logger, action: () => Promise<void>): Promise<boolean> {
+  try {
+    await action();
+    return true;
+  } catch (err) {
+    logger.error(`Quick fix failed: ${describeError(err)}`);
+    if (!(err instanceof UserCancelledError)) {
+      void window.showErrorMessage(describeError(err));
+    }
+    return false;
+  }
+}
+
+/**
+ * Set tools in `haskell.toolchain` of a workspace folder, keeping the tools that are configured already.
+ */
+async function pinToolchain(folder: WorkspaceFolder | undefined, tools: { [tool: string]: string }): Promise<void> {
+  const config = workspace.getConfiguration('haskell', folder);
+  const target = folder ? ConfigurationTarget.WorkspaceFolder : ConfigurationTarget.Global;
+  const current = config.inspect<{ [tool: string]: string }>('toolchain');
+  const configured = (folder ? current?.workspaceFolderValue : current?.globalValue) ?? {};
+  await config.update('toolchain', { ...configured, ...tools }, target);
+}
+
+async function pickGhc(versions: string[], title: string): Promise<string | undefined> {
+  const sorted = [...versions].sort((v1, v2) => comparePVP(v2, v1));
+  return await window.showQuickPick(sorted, { title });
+}
+
+function newest(versions: string[]): string | undefined {
+  return [...versions].sort((v1, v2) => comparePVP(v1, v2)).pop();
+}
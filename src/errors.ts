@@ -1,8 +1,60 @@
 import { Uri } from 'vscode';
+import { Tool } from './ghcup';
 
-export class HlsError extends Error {}
+/**
+ * Stable codes of the errors the extension reports. They appear in the logs and error messages,
+ * so that users can search for them. Never reuse or renumber a code.
+ */
+export type ErrorCode =
+  | 'HLS-E000' // general error
+  | 'HLS-E001' // a required tool isn't installed
+  | 'HLS-E002' // no HLS supports the project's GHC
+  | 'HLS-E003' // release metadata could not be fetched
+  | 'HLS-E004' // a ghcup invocation failed
+  | 'HLS-E005' // the project's cradle could not be loaded
+  | 'HLS-E006' // the platform or architecture isn't supported
+  | 'HLS-E007' // a configured executable does not exist
+  | 'HLS-E008' // the user cancelled
+  | 'HLS-E009' // hoogle failed or printed something unexpected
+  | 'HLS-E010'; // a variable in a setting can't be substituted
+
+export type HlsErrorOptions = {
+  /**
+   * What the user can do about the error.
+   */
+  hint?: string;
+  cause?: unknown;
+};
+
+export class HlsError extends Error {
+  readonly code: ErrorCode = 'HLS-E000';
+  readonly hint?: string;
+
+  constructor(message: string, options?: HlsErrorOptions) {
+    super(message, options?.cause !== undefined ? { cause: options.cause } : undefined);
+    this.hint = options?.hint;
+  }
+
+  /**
+   * Documentation that helps with the error, if there is any.
+   */
+  public docLink(): Uri | null {
+    return null;
+  }
+}
+
+/**
+ * Render an error for the logs, with its code and remediation hint.
+ */
+export function describeError(e: unknown): string {
+  if (e instanceof HlsError) {
+    return `[${e.code}] ${e.message}` + (e.hint ? ` (${e.hint})` : '');
+  }
+  return e instanceof Error ? e.message : String(e);
+}
 
 export class MissingToolError extends HlsError {
+  readonly code: ErrorCode = 'HLS-E001';
   public readonly tool: string;
   constructor(tool: string) {
     let prettyTool: string;
@@ -23,6 +75,15 @@ export class MissingToolError extends HlsError {
       case 'hls':
         prettyTool = 'HLS';
         break;
+      case 'nix':
+        prettyTool = 'Nix';
+        break;
+      case 'direnv':
+        prettyTool = 'direnv';
+        break;
+      case 'hoogle':
+        prettyTool = 'Hoogle';
+        break;
       default:
         prettyTool = tool;
         break;
@@ -40,17 +101,191 @@ export class MissingToolError extends HlsError {
       case 'HLS':
       case 'GHC':
         return Uri.parse('https://www.haskell.org/ghcup/');
+      case 'Nix':
+        return Uri.parse('https://nixos.org/download/');
+      case 'direnv':
+        return Uri.parse('https://direnv.net/docs/installation.html');
+      case 'Hoogle':
+        return Uri.parse('https://github.com/ndmitchell/hoogle/blob/master/docs/Install.md');
+      default:
+        return null;
+    }
+  }
+
+  public docLink(): Uri | null {
+    return this.installLink();
+  }
+
+  /**
+   * The tool as ghcup knows it, or `null` if ghcup can't install it.
+   */
+  public ghcupTool(): Tool | null {
+    switch (this.tool) {
+      case 'GHC':
+        return 'ghc';
+      case 'Cabal':
+        return 'cabal';
+      case 'Stack':
+        return 'stack';
+      case 'HLS':
+        return 'hls';
       default:
         return null;
     }
   }
 }
 
-export class NoMatchingHls extends Error {
-  constructor(readonly ghcProjVersion: string) {
-    super(`HLS does not support GHC ${ghcProjVersion} yet.`);
+export class NoMatchingHls extends HlsError {
+  readonly code: ErrorCode = 'HLS-E002';
+
+  /**
+   * @param ghcProjVersion GHC version of the project.
+   * @param supportedGhcs GHC versions supported by each HLS version that is available or installed.
+   */
+  constructor(
+    readonly ghcProjVersion: string,
+    readonly supportedGhcs: Map<string, string[]> = new Map(),
+  ) {
+    super(`HLS does not support GHC ${ghcProjVersion} yet.`, {
+      hint: 'Use a GHC version supported by HLS, e.g. by pinning it in "haskell.toolchain"',
+    });
   }
   public docLink(): Uri {
     return Uri.parse('https://haskell-language-server.readthedocs.io/en/latest/support/ghc-version-support.html');
   }
 }
+
+/**
+ * The metadata of HLS releases could not be downloaded, and there is no usable cache of it.
+ */
+export class MetadataFetchError extends HlsError {
+  readonly code: ErrorCode = 'HLS-E003';
+
+  constructor(message: string, cause?: unknown) {
+    super(message, {
+      hint: 'Check your internet connection and "haskell.releasesURL", or enable "haskell.offline"',
+      cause,
+    });
+  }
+
+  public docLink(): Uri {
+    return Uri.parse('https://github.com/haskell/vscode-haskell#downloaded-binaries');
+  }
+}
+
+/**
+ * ghcup failed, or didn't print what we expected.
+ */
+export class GHCupError extends HlsError {
+  readonly code: ErrorCode = 'HLS-E004';
+
+  constructor(message: string, cause?: unknown) {
+    super(message, { hint: 'The ghcup output is in the extension log, try running the command in a terminal', cause });
+  }
+
+  public docLink(): Uri {
+    return Uri.parse('https://www.haskell.org/ghcup/guide/');
+  }
+}
+
+/**
+ * The project's cradle, i.e. how HLS builds the project, could not be loaded.
+ */
+export class CradleError extends HlsError {
+  readonly code: ErrorCode = 'HLS-E005';
+
+  constructor(message: string, cause?: unknown) {
+    super(message, {
+      hint: 'Make sure the project builds with cabal or stack, or configure its cradle in an hie.yaml',
+      cause,
+    });
+  }
+
+  public docLink(): Uri {
+    return Uri.parse('https://haskell-language-server.readthedocs.io/en/latest/configuration.html');
+  }
+}
+
+/**
+ * There are no HLS binaries for the platform or architecture of the host.
+ */
+export class UnsupportedPlatformError extends HlsError {
+  readonly code: ErrorCode = 'HLS-E006';
+
+  constructor(message: string) {
+    super(message, { hint: 'Build HLS from source and set "haskell.manageHLS" to "PATH"' });
+  }
+
+  public docLink(): Uri {
+    return Uri.parse('https://haskell-language-server.readthedocs.io/en/latest/installation.html');
+  }
+}
+
+/**
+ * An executable configured in the settings does not exist.
+ */
+export class ExecutableNotFoundError extends HlsError {
+  readonly code: ErrorCode = 'HLS-E007';
+
+  /**
+   * @param what What the executable is, e.g. 'a ghcup binary'.
+   * @param executable Path of the executable, after substituting variables.
+   * @param setting The setting the path comes from.
+   */
+  constructor(
+    what: string,
+    readonly executable: string,
+    readonly setting: string,
+  ) {
+    super(`Could not find ${what} at ${executable}!`, { hint: `Check "${setting}" in your settings` });
+  }
+}
+
+/**
+ * The user cancelled a long-running action, e.g. a download.
+ */
+export class UserCancelledError extends HlsError {
+  readonly code: ErrorCode = 'HLS-E008';
+
+  constructor(action: string) {
+    super(`Cancelled: ${action}`);
+  }
+}
+
+/**
+ * Hoogle failed, or printed something that isn't a list of search results.
+ */
+export class HoogleError extends HlsError {
+  readonly code: ErrorCode = 'HLS-E009';
+
+  constructor(message: string, cause?: unknown) {
+    super(message, {
+      hint: 'Make sure hoogle is up to date, and generate the database again with "Haskell: Generate Hoogle database"',
+      cause,
+    });
+  }
+}
+
+/**
+ * A variable in a setting is unknown or has no value, e.g. `${workspaceFolder}` for a file outside of any folder.
+ */
+export class UndefinedVariableError extends HlsError {
+  readonly code: ErrorCode = 'HLS-E010';
+
+  /**
+   * @param variable The variable as written in the setting, e.g. `${env:GHCUP_INSTALL_BASE_PREFIX}`.
+   * @param reason Why it can't be substituted.
+   * @param setting The setting the variable is used in.
+   */
+  constructor(
+    readonly variable: string,
+    reason: string,
+    readonly setting: string,
+  ) {
+    super(`Cannot substitute ${variable} in "${setting}": ${reason}`, { hint: `Check "${setting}" in your settings` });
+  }
+
+  public docLink(): Uri {
+    return Uri.parse('https://github.com/haskell/vscode-haskell#variables-in-settings');
+  }
+}
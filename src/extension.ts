@@ -1,4 +1,18 @@
-import { commands, env, ExtensionContext, TextDocument, Uri, window, workspace, WorkspaceFolder } from 'vscode';
+import {
+  commands,
+  ConfigurationChangeEvent,
+  Disposable,
+  env,
+  ExtensionContext,
+  OutputChannel,
+  QuickPickItem,
+  RelativePattern,
+  TextDocument,
+  Uri,
+  window,
+  workspace,
+  WorkspaceFolder,
+} from 'vscode';
 import {
   ExecutableOptions,
   LanguageClient,
@@ -6,14 +20,38 @@ import {
   Logger,
   RevealOutputChannelOn,
   ServerOptions,
+  State,
 } from 'vscode-languageclient/node';
+import * as path from 'path';
 import * as constants from './commands/constants';
 import * as DocsBrowser from './docsBrowser';
-import { HlsError, MissingToolError, NoMatchingHls } from './errors';
-import { findHaskellLanguageServer, HlsExecutable, IEnvVars, fetchConfig } from './hlsBinaries';
-import { addPathToProcessPath, comparePVP, callAsync } from './utils';
-import { Config, initConfig, initLoggerFromConfig, logConfig } from './config';
-import { HaskellStatusBar } from './statusBar';
+import { fetchDependencyDocs } from './docStore';
+import { FolderReportInput, generateDiagnosticsReport } from './diagnosticsReport';
+import { ErrorFixContext, offerMissingToolFixes, offerNoMatchingHlsFixes } from './errorActions';
+import { describeError, HlsError, MissingToolError, NoMatchingHls, UserCancelledError } from './errors';
+import { findHaskellLanguageServer, HlsExecutable, IEnvVars, fetchConfig, getStoragePath } from './hlsBinaries';
+import { addPathToProcessPath, comparePVP, callAsync, formatCommandLine, workspaceFolderOf } from './utils';
+import { registerConfigSchema, reportConfigProblems, validateConfig, validSetting } from './configValidation';
+import { classifyConfigChange } from './configChanges';
+import {
+  Config,
+  getGHCupConfig,
+  initConfig,
+  initLoggerFromConfig,
+  initRedactor,
+  logConfig,
+  redactConfig,
+} from './config';
+import { HaskellStatusBar, manageTrustCommand } from './statusBar';
+import { crashReport, RestartWithBackoff, StderrCapturingChannel } from './crashRecovery';
+import { ExtensionLogger, flushLogs, holdLogFile } from './logger';
+import { Redactor } from './redaction';
+import { GHCup, initDefaultGHCup } from './ghcup';
+import { devEnvFiles } from './devEnv';
+import { containerUriConverters, hostToContainerPath } from './container';
+import { formatToolchain, readToolchainLock, ToolchainLock, toolchainLockDrift } from './toolchainLock';
+import { registerToolchainView } from './toolchainView';
+import { generateHoogleDatabase, HoogleProject, searchHoogle } from './hoogle';
 
 /**
  * Global information about the running clients.
@@ -21,6 +59,17 @@ import { HaskellStatusBar } from './statusBar';
 type Client = {
   client: LanguageClient;
   config: Config;
+  logger: ExtensionLogger;
+  hlsExecutable: HlsExecutable;
+  /**
+   * The document the server was launched for. Only relevant for standalone files.
+   */
+  uri: Uri;
+  folder?: WorkspaceFolder;
+  /**
+   * Resources that live as long as the client, e.g. file watchers.
+   */
+  disposables: Disposable[];
 };
 
 // The current map of documents & folders to language servers.
@@ -28,21 +77,50 @@ type Client = {
 // in which case don't try to launch another one for that uri
 const clients: Map<string, Client | null> = new Map();
 
+// Documents & folders whose toolchain setup the user cancelled, with what we need to resume it.
+// Opening another file doesn't set them up again, only resuming the setup does.
+const cancelledSetups: Map<string, { uri: Uri; folder?: WorkspaceFolder }> = new Map();
+
+// Toolchain updates found while the server of a folder was still being launched, offered once it runs.
+const pendingToolchainUpdates: Map<string, ToolchainLock> = new Map();
+
+// Whether the user was told why no server starts in Restricted Mode, which is only done once.
+let workspaceTrustOffered = false;
+
 // This is the entrypoint to our extension
 export async function activate(context: ExtensionContext) {
   const statusBar = new HaskellStatusBar(context.extension.packageJSON.version as string | undefined);
   context.subscriptions.push(statusBar);
+  registerConfigSchema(context.extension.packageJSON);
+  // read the configuration again, now that invalid settings can fall back to their defaults
+  fetchConfig();
 
   // (Possibly) launch the language server every time a document is opened, so
   // it works across multiple workspace folders. Eventually, haskell-lsp should
   // just support
   // https://microsoft.github.io/language-server-protocol/specifications/specification-3-15/#workspace_workspaceFolders
   // and then we can just launch one server
-  workspace.onDidOpenTextDocument(async (document: TextDocument) => await activateServer(context, document));
+  workspace.onDidOpenTextDocument(async (document: TextDocument) => await activateServer(context, statusBar, document));
   for (const document of workspace.textDocuments) {
-    await activateServer(context, document);
+    await activateServer(context, statusBar, document);
   }
 
+  // Servers are not started in Restricted Mode, start them once the workspace is trusted.
+  context.subscriptions.push(
+    workspace.onDidGrantWorkspaceTrust(async () => {
+      // the settings of the workspace only count from now on
+      fetchConfig();
+      for (const document of workspace.textDocuments) {
+        await activateServer(context, statusBar, document);
+      }
+    }),
+  );
+
+  // Apply changed settings without restarting the whole extension.
+  context.subscriptions.push(
+    workspace.onDidChangeConfiguration(async (event) => await applyConfigChange(context, statusBar, event)),
+  );
+
   // Stop the server from any workspace folders that are removed.
   workspace.onDidChangeWorkspaceFolders(async (event) => {
     for (const folder of event.removed) {
@@ -51,27 +129,32 @@ export async function activate(context: ExtensionContext) {
         const uri = folder.uri.toString();
         client.client.info(`Deleting folder for clients: ${uri}`);
         clients.delete(uri);
-        client.client.info('Stopping the server');
-        await client.client.stop();
+        statusBar.remove(uri);
+        await stopClient(client);
+      }
+      if (cancelledSetups.delete(folder.uri.toString())) {
+        statusBar.remove(folder.uri.toString());
       }
     }
   });
 
   // Register editor commands for HIE, but only register the commands once at activation.
-  const restartCmd = commands.registerCommand(constants.RestartServerCommandName, async () => {
-    for (const langClient of clients.values()) {
-      langClient?.client.info('Stopping the server');
-      await langClient?.client.stop();
-      langClient?.client.info('Starting the server');
-      await langClient?.client.start();
+  // Each of the server commands may be given the key of a client (see `clients`),
+  // or 'all', to skip asking the user which server the command applies to.
+  const restartCmd = commands.registerCommand(constants.RestartServerCommandName, async (target?: string) => {
+    for (const langClient of await selectClients(target)) {
+      langClient.client.info('Stopping the server');
+      await langClient.client.stop();
+      langClient.client.info('Starting the server');
+      await langClient.client.start();
     }
   });
 
   context.subscriptions.push(restartCmd);
 
-  const openLogsCmd = commands.registerCommand(constants.OpenLogsCommandName, () => {
-    for (const langClient of clients.values()) {
-      langClient?.config.outputChannel.show();
+  const openLogsCmd = commands.registerCommand(constants.OpenLogsCommandName, async (target?: string) => {
+    for (const langClient of await selectClients(target)) {
+      langClient.config.outputChannel.show();
     }
   });
 
@@ -79,57 +162,314 @@ export async function activate(context: ExtensionContext) {
 
   const restartExtensionCmd = commands.registerCommand(constants.RestartExtensionCommandName, async () => {
     for (const langClient of clients.values()) {
-      langClient?.client.info('Stopping the server');
-      await langClient?.client.stop();
+      if (langClient) {
+        await stopClient(langClient);
+      }
+    }
+    for (const key of clients.keys()) {
+      statusBar.remove(key);
     }
     clients.clear();
+    cancelledSetups.clear();
     fetchConfig();
 
     for (const document of workspace.textDocuments) {
-      await activateServer(context, document);
+      await activateServer(context, statusBar, document);
     }
   });
 
   context.subscriptions.push(restartExtensionCmd);
 
+  const resumeSetupCmd = commands.registerCommand(constants.ResumeSetupCommandName, async (target?: string) => {
+    const keys = target !== undefined ? [target] : [...cancelledSetups.keys()];
+    for (const key of keys) {
+      const setup = cancelledSetups.get(key);
+      if (setup) {
+        cancelledSetups.delete(key);
+        await activateServerForFolder(context, statusBar, setup.uri, setup.folder);
+      }
+    }
+  });
+
+  context.subscriptions.push(resumeSetupCmd);
+
+  const validateConfigCmd = commands.registerCommand(constants.ValidateConfigurationCommandName, () => {
+    const problems = (workspace.workspaceFolders ?? [undefined]).flatMap((folder) =>
+      validateConfig(workspace.getConfiguration('haskell', folder), folder),
+    );
+    // settings that aren't overridden by a folder would be reported once per folder
+    const unique = [...new Map(problems.map((problem) => [problem.message, problem])).values()];
+    if (unique.length === 0) {
+      void window.showInformationMessage('The Haskell configuration is valid.');
+    } else {
+      void reportConfigProblems(unique, true);
+    }
+  });
+
+  context.subscriptions.push(validateConfigCmd);
+
+  const diagnosticsChannel = window.createOutputChannel('Haskell Diagnostics');
+  const diagnosticsLogger = new ExtensionLogger('diagnostics', 'info', diagnosticsChannel, undefined, {
+    redactor: initRedactor(workspace.getConfiguration('haskell')),
+  });
+  const diagnosticsReportCmd = commands.registerCommand(constants.GenerateDiagnosticsReportCommandName, async () => {
+    const folders: FolderReportInput[] = [...clients.entries()]
+      .filter((entry): entry is [string, Client] => entry[1] !== null)
+      .map(([key, langClient]) => ({
+        status: statusBar.statusOf(key),
+        config: langClient.config,
+        hlsExecutable: langClient.hlsExecutable,
+        serverCommand: serverCommandLine(langClient.hlsExecutable, langClient.config.serverArgs),
+        projectGhcCommand: serverCommandLine(langClient.hlsExecutable, ['--project-ghc-version']),
+        environment: initServerEnvironment(langClient.config, langClient.hlsExecutable),
+        logger: langClient.logger,
+      }));
+    let ghcup: GHCup | undefined;
+    try {
+      ghcup = initDefaultGHCup(getGHCupConfig(workspace.getConfiguration('haskell')), diagnosticsLogger);
+    } catch (e) {
+      diagnosticsLogger.warn(`Not listing the ghcup tools: ${describeError(e)}`);
+    }
+    const report = await generateDiagnosticsReport(
+      context.extension.packageJSON.version as string | undefined,
+      folders,
+      ghcup,
+      initRedactor(workspace.getConfiguration('haskell')),
+      diagnosticsLogger,
+    );
+    await window.showTextDocument(await workspace.openTextDocument({ language: 'markdown', content: report }));
+  });
+
+  context.subscriptions.push(diagnosticsChannel, diagnosticsReportCmd);
+
   const showVersionsCmd = commands.registerCommand(constants.ShowExtensionVersions, () => {
     void window.showInformationMessage(`Extension Version: ${context.extension.packageJSON.version ?? '<unknown>'}`);
   });
 
   context.subscriptions.push(showVersionsCmd);
 
-  const stopCmd = commands.registerCommand(constants.StopServerCommandName, async () => {
-    for (const langClient of clients.values()) {
-      langClient?.client.info('Stopping the server');
-      await langClient?.client.stop();
-      langClient?.client.info('Server stopped');
+  const stopCmd = commands.registerCommand(constants.StopServerCommandName, async (target?: string) => {
+    for (const langClient of await selectClients(target)) {
+      langClient.client.info('Stopping the server');
+      await langClient.client.stop();
+      langClient.client.info('Server stopped');
     }
   });
 
   context.subscriptions.push(stopCmd);
 
-  const startCmd = commands.registerCommand(constants.StartServerCommandName, async () => {
-    for (const langClient of clients.values()) {
-      langClient?.client.info('Starting the server');
-      await langClient?.client.start();
-      langClient?.client.info('Server started');
+  const startCmd = commands.registerCommand(constants.StartServerCommandName, async (target?: string) => {
+    for (const langClient of await selectClients(target)) {
+      langClient.client.info('Starting the server');
+      await langClient.client.start();
+      langClient.client.info('Server started');
     }
   });
 
   context.subscriptions.push(startCmd);
 
+  const updateToolchainLockCmd = commands.registerCommand(
+    constants.UpdateToolchainLockCommandName,
+    async (target?: string) => {
+      for (const langClient of await selectClients(target)) {
+        if (langClient.hlsExecutable.tag !== 'ghcup') {
+          void window.showWarningMessage(
+            `${langClient.config.langName}: toolchain locks are only supported if "haskell.manageHLS" is set to "GHCup".`,
+          );
+          continue;
+        }
+        await reactivateServer(context, statusBar, langClient, true);
+      }
+    },
+  );
+
+  context.subscriptions.push(updateToolchainLockCmd);
+
+  const showToolchainLockDriftCmd = commands.registerCommand(
+    constants.ShowToolchainLockDriftCommandName,
+    async (target?: string) => {
+      for (const langClient of await selectClients(target)) {
+        await showToolchainLockDrift(context, statusBar, langClient);
+      }
+    },
+  );
+
+  context.subscriptions.push(showToolchainLockDriftCmd);
+
+  const searchHoogleCmd = commands.registerCommand(constants.SearchHoogleCommandName, async () => {
+    const langClient = await selectActiveClient();
+    if (langClient) {
+      try {
+        await searchHoogle(hoogleProject(langClient), getStoragePath(context), langClient.logger.child('docs'));
+      } catch (e) {
+        await handleInitializationError(e, langClient.logger);
+      }
+    }
+  });
+
+  context.subscriptions.push(searchHoogleCmd);
+
+  const generateHoogleDatabaseCmd = commands.registerCommand(
+    constants.GenerateHoogleDatabaseCommandName,
+    async (target?: string) => {
+      for (const langClient of await selectClients(target)) {
+        try {
+          await generateHoogleDatabase(
+            hoogleProject(langClient),
+            getStoragePath(context),
+            langClient.logger.child('docs'),
+          );
+        } catch (e) {
+          await handleInitializationError(e, langClient.logger);
+        }
+      }
+    },
+  );
+
+  context.subscriptions.push(generateHoogleDatabaseCmd);
+
+  const fetchDependencyDocsCmd = commands.registerCommand(constants.FetchDependencyDocsCommandName, async () => {
+    const langClient = await selectActiveClient();
+    if (langClient) {
+      try {
+        const project = hoogleProject(langClient);
+        await fetchDependencyDocs(
+          project.workingDir,
+          project.environment,
+          getStoragePath(context),
+          DocsBrowser.hackageBaseUrl(),
+          langClient.config.ghcupConfig.offline,
+          langClient.logger.child('docs'),
+        );
+      } catch (e) {
+        await handleInitializationError(e, langClient.logger);
+      }
+    }
+  });
+
+  context.subscriptions.push(fetchDependencyDocsCmd);
+
   // Set up the documentation browser.
-  const docsDisposable = DocsBrowser.registerDocsBrowser();
+  const docsDisposable = DocsBrowser.registerDocsBrowser(getStoragePath(context));
   context.subscriptions.push(docsDisposable);
 
   const openOnHackageDisposable = DocsBrowser.registerDocsOpenOnHackage();
   context.subscriptions.push(openOnHackageDisposable);
 
-  statusBar.refresh();
+  // Set up the toolchain view, showing which ghcup toolchain each folder uses.
+  const toolchainViewDisposable = registerToolchainView(
+    () =>
+      [...clients.values()].flatMap((langClient) =>
+        langClient?.hlsExecutable.tag === 'ghcup'
+          ? [
+              {
+                name: langClient.folder?.name ?? path.basename(langClient.uri.fsPath),
+                toolchain: langClient.hlsExecutable.toolchain,
+              },
+            ]
+          : [],
+      ),
+    statusBar.onDidChange,
+  );
+  context.subscriptions.push(toolchainViewDisposable);
+
+  // Keep the links in the status bar pointed at the server of the active editor.
+  context.subscriptions.push(window.onDidChangeActiveTextEditor(() => statusBar.setActiveClient(activeClientKey())));
+
+  statusBar.setActiveClient(activeClientKey());
   statusBar.show();
 }
 
-async function activateServer(context: ExtensionContext, document: TextDocument) {
+/**
+ * Compute the key under which the client responsible for the given uri is stored in `clients`.
+ *
+ * @param uri Uri of a document.
+ * @param folder Workspace folder of the document, if there is any.
+ * @returns The workspace folder uri, or the document uri itself for standalone files.
+ */
+function clientKey(uri: Uri, folder?: WorkspaceFolder): string {
+  return folder ? folder.uri.toString() : uri.toString();
+}
+
+/**
+ * Find the key of the client responsible for the document in the active editor.
+ *
+ * @returns The key in `clients`, or `undefined` if there is no active editor.
+ */
+function activeClientKey(): string | undefined {
+  const uri = window.activeTextEditor?.document.uri;
+  if (!uri) {
+    return undefined;
+  }
+  return clientKey(uri, workspace.getWorkspaceFolder(uri));
+}
+
+/**
+ * Find the client of the active editor, or let the user pick one of the running clients.
+ */
+async function selectActiveClient(): Promise<Client | undefined> {
+  const key = activeClientKey();
+  const active = key ? clients.get(key) : undefined;
+  return active ?? (await selectClients(undefined, false))[0];
+}
+
+/**
+ * Hoogle runs in the environment of the client's server, so that it finds the same toolchain.
+ */
+function hoogleProject(langClient: Client): HoogleProject {
+  return {
+    workingDir: langClient.config.workingDir,
+    folder: langClient.folder,
+    environment: initServerEnvironment(langClient.config, langClient.hlsExecutable),
+  };
+}
+
+/**
+ * Determine which of the running clients a server command applies to.
+ *
+ * If no target is given and more than one server is running, the user is asked
+ * to pick one of them. The server of the active editor is offered first.
+ *
+ * @param target Key of a client in `clients`, or `'all'` for every running client.
+ * @param offerAll Whether the user may pick all servers at once. Commands that only use a single client don't offer it.
+ * @returns The selected clients. Empty if nothing was selected or nothing is running.
+ */
+async function selectClients(target?: string, offerAll: boolean = true): Promise<Client[]> {
+  const running = [...clients.entries()].filter((entry): entry is [string, Client] => entry[1] !== null);
+  if (target === 'all') {
+    return running.map(([_key, client]) => client);
+  }
+  if (target !== undefined) {
+    const client = clients.get(target);
+    return client ? [client] : [];
+  }
+  if (running.length <= 1) {
+    return running.map(([_key, client]) => client);
+  }
+
+  const activeKey = activeClientKey();
+  type ClientPickItem = QuickPickItem & { clients: Client[] };
+  const items: ClientPickItem[] = running
+    .sort(([k1, _c1], [k2, _c2]) => (k1 === activeKey ? -1 : k2 === activeKey ? 1 : 0))
+    .map(([key, client]) => ({
+      label: client.config.langName,
+      description: key === activeKey ? 'active editor' : undefined,
+      detail: Uri.parse(key).fsPath,
+      clients: [client],
+    }));
+  if (offerAll) {
+    items.push({
+      label: 'All servers',
+      description: `${running.length} running`,
+      clients: running.map(([_key, client]) => client),
+    });
+  }
+
+  const picked = await window.showQuickPick(items, { placeHolder: 'Select a Haskell language server' });
+  return picked?.clients ?? [];
+}
+
+async function activateServer(context: ExtensionContext, statusBar: HaskellStatusBar, document: TextDocument) {
   // We are only interested in Haskell files.
   if (
     (document.languageId !== 'haskell' &&
@@ -143,30 +483,85 @@ async function activateServer(context: ExtensionContext, document: TextDocument)
   const uri = document.uri;
   const folder = workspace.getWorkspaceFolder(uri);
 
-  await activateServerForFolder(context, uri, folder);
+  await activateServerForFolder(context, statusBar, uri, folder);
 }
 
-async function activateServerForFolder(context: ExtensionContext, uri: Uri, folder?: WorkspaceFolder) {
-  const clientsKey = folder ? folder.uri.toString() : uri.toString();
+/**
+ * Set up the toolchain of a document or workspace folder and launch its server, unless it has one already.
+ *
+ * @param updateToolchainLock Ignore the toolchain lock of the folder and write the newly resolved toolchain to it.
+ * @param knownExecutable Launch this server executable instead of finding one, e.g. when relaunching a server.
+ */
+async function activateServerForFolder(
+  context: ExtensionContext,
+  statusBar: HaskellStatusBar,
+  uri: Uri,
+  folder?: WorkspaceFolder,
+  updateToolchainLock: boolean = false,
+  knownExecutable?: HlsExecutable,
+) {
+  const clientsKey = clientKey(uri, folder);
   // If the client already has an LSP server for this uri/folder, then don't start a new one.
-  if (clients.has(clientsKey)) {
+  // Neither if the user cancelled setting it up, until the setup is resumed.
+  if (clients.has(clientsKey) || cancelledSetups.has(clientsKey)) {
+    return;
+  }
+  // HLS builds the project, which runs code of the project, e.g. Template Haskell splices or a custom Setup.hs.
+  if (!workspace.isTrusted) {
+    statusBar.update(clientsKey, {
+      status: 'untrusted',
+      name: folder?.name ?? path.basename(uri.fsPath),
+      message: 'The language server is not started in Restricted Mode.',
+    });
+    void offerWorkspaceTrust();
     return;
   }
   // Set the key to null to prevent multiple servers being launched at once
   clients.set(clientsKey, null);
 
-  const config = initConfig(workspace.getConfiguration('haskell', uri), uri, folder);
-  const logger: Logger = initLoggerFromConfig(config);
+  const workspaceConfig = workspace.getConfiguration('haskell', uri);
+  const configProblems = validateConfig(workspaceConfig, folder);
+  // invalid settings fall back to their defaults, so the server can start anyway
+  void reportConfigProblems(configProblems);
+  const config = initConfig(workspaceConfig, uri, folder);
+  const logger: ExtensionLogger = initLoggerFromConfig(config);
 
   logConfig(logger, config);
+  configProblems.forEach((problem) => logger.warn(problem.message));
 
+  statusBar.update(clientsKey, { status: 'resolving', name: folder?.name ?? path.basename(uri.fsPath) });
   let hlsExecutable: HlsExecutable;
   try {
-    hlsExecutable = await findHaskellLanguageServer(context, logger, config.ghcupConfig, config.workingDir, folder);
+    hlsExecutable =
+      knownExecutable ??
+      (await findHaskellLanguageServer(
+        context,
+        logger.child('toolchain'),
+        config.ghcupConfig,
+        config.workingDir,
+        folder,
+        {
+          updateToolchainLock,
+          onToolchainChanged: (toolchain) => void offerToolchainUpdate(context, statusBar, clientsKey, toolchain),
+        },
+      ));
   } catch (e) {
-    await handleInitializationError(e, logger);
+    if (e instanceof UserCancelledError) {
+      cancelledSetups.set(clientsKey, { uri, folder });
+      statusBar.update(clientsKey, { status: 'cancelled', message: e.message });
+    } else {
+      statusBar.update(clientsKey, { status: 'error', message: e instanceof Error ? e.message : undefined });
+    }
+    const fixed = await handleInitializationError(e, logger, {
+      folder,
+      ghcupConfig: config.ghcupConfig,
+      manageHls: validSetting(workspaceConfig, 'manageHLS'),
+    });
     // Make sure to release the key again.
     clients.delete(clientsKey);
+    if (fixed) {
+      await activateServerForFolder(context, statusBar, uri, folder, updateToolchainLock);
+    }
     return;
   }
 
@@ -176,11 +571,13 @@ async function activateServerForFolder(context: ExtensionContext, uri: Uri, fold
     env: { ...process.env, ...serverEnvironment },
   };
 
+  const [serverCommand, serverArgs] = serverCommandLine(hlsExecutable, config.serverArgs);
+
   // For our intents and purposes, the server should be launched the same way in
   // both debug and run mode.
   const serverOptions: ServerOptions = {
-    run: { command: hlsExecutable.location, args: config.serverArgs, options: exeOptions },
-    debug: { command: hlsExecutable.location, args: config.serverArgs, options: exeOptions },
+    run: { command: serverCommand, args: serverArgs, options: exeOptions },
+    debug: { command: serverCommand, args: serverArgs, options: exeOptions },
   };
 
   // If we're operating on a standalone file (i.e. not in a folder) then we need
@@ -194,8 +591,8 @@ async function activateServerForFolder(context: ExtensionContext, uri: Uri, fold
   }
   logger.info(cwdMsg);
 
-  logger.info(`run command: ${hlsExecutable.location} ${config.serverArgs.join(' ')}`);
-  logger.info(`debug command: ${hlsExecutable.location} ${config.serverArgs.join(' ')}`);
+  logger.info(`run command: ${formatCommandLine(serverCommand, serverArgs)}`);
+  logger.info(`debug command: ${formatCommandLine(serverCommand, serverArgs)}`);
   if (exeOptions.cwd) {
     logger.info(`server cwd: ${exeOptions.cwd}`);
   }
@@ -223,18 +620,28 @@ async function activateServerForFolder(context: ExtensionContext, uri: Uri, fold
   ).supportCabalFiles;
   logger.info(`Support for '.cabal' files: ${cabalFileSupport}`);
 
+  const hlsVersion = await callAsync(
+    ...serverCommandLine(hlsExecutable, ['--numeric-version']),
+    logger,
+    config.workingDir,
+    undefined /* this command is very fast, don't show anything */,
+    false,
+    serverEnvironment,
+  ).then(
+    (version) => version,
+    (_err) => undefined,
+  );
+  logger.info(`HLS version: ${hlsVersion ?? '<unknown>'}`);
+  statusBar.update(clientsKey, {
+    status: 'starting',
+    hlsVersion,
+    ghcVersion: hlsExecutable.tag === 'ghcup' ? hlsExecutable.ghcVersion : undefined,
+    tag: hlsExecutable.tag,
+  });
+
   switch (cabalFileSupport) {
     case 'automatic': {
-      const hlsVersion = await callAsync(
-        hlsExecutable.location,
-        ['--numeric-version'],
-        logger,
-        config.workingDir,
-        undefined /* this command is very fast, don't show anything */,
-        false,
-        serverEnvironment,
-      );
-      if (comparePVP(hlsVersion, '1.9.0.0') >= 0) {
+      if (hlsVersion !== undefined && comparePVP(hlsVersion, '1.9.0.0') >= 0) {
         // If hlsVersion is >= '1.9.0.0'
         documentSelector.push(cabalDocumentSelector);
       }
@@ -249,6 +656,9 @@ async function activateServerForFolder(context: ExtensionContext, uri: Uri, fold
       break;
   }
 
+  // Remember what the server writes to stderr, so we can include it in crash reports.
+  const outputChannel = new StderrCapturingChannel(config.outputChannel, config.restartPolicy.stderrLines);
+
   const clientOptions: LanguageClientOptions = {
     // Use the document selector to only notify the LSP on files inside the folder
     // path for the specific workspace.
@@ -259,14 +669,37 @@ async function activateServerForFolder(context: ExtensionContext, uri: Uri, fold
     },
     diagnosticCollectionName: config.langName,
     revealOutputChannelOn: RevealOutputChannelOn.Never,
-    outputChannel: config.outputChannel,
+    outputChannel: outputChannel,
     outputChannelName: config.langName,
-    middleware: {
-      provideHover: DocsBrowser.hoverLinksMiddlewareHook,
-      provideCompletionItem: DocsBrowser.completionLinksMiddlewareHook,
-    },
+    middleware: DocsBrowser.linksMiddleware(logger.child('lsp-middleware')),
     // Launch the server in the directory of the workspace folder.
     workspaceFolder: folder,
+    // A server in a container sees the files of the host at different paths.
+    uriConverters: hlsExecutable.tag === 'container' ? containerUriConverters(hlsExecutable.pathMappings) : undefined,
+    // Restart the server with backoff if it crashes, and let the status bar know about it.
+    errorHandler: new RestartWithBackoff(
+      config.restartPolicy,
+      logger,
+      () => statusBar.update(clientsKey, { status: 'crashed', message: 'The language server exited unexpectedly.' }),
+      () =>
+        void offerCrashRecovery(langClient, outputChannel, () =>
+          crashReport(
+            {
+              extensionVersion: context.extension.packageJSON.version as string | undefined,
+              hlsVersion,
+              ghcVersion: hlsExecutable.tag === 'ghcup' ? hlsExecutable.ghcVersion : undefined,
+              tag: hlsExecutable.tag,
+              command: formatCommandLine(serverCommand, serverArgs),
+              workingDir: config.workingDir,
+              environment: Object.keys(serverEnvironment),
+              config: redactConfig(config),
+              stderr: outputChannel.stderrTail(),
+              log: logger.tail(config.restartPolicy.stderrLines),
+            },
+            config.logOptions.redactor ?? new Redactor(),
+          ),
+        ),
+    ),
   };
 
   // Create the LSP client.
@@ -275,39 +708,295 @@ async function activateServerForFolder(context: ExtensionContext, uri: Uri, fold
   // Register ClientCapabilities for stuff like window/progress
   langClient.registerProposedFeatures();
 
+  // Mirror the state of the client in the status bar.
+  // A crash is reported by the error handler, don't overwrite it when the client stops afterwards.
+  // The server writes to the log file while it runs, so the file must not be rotated meanwhile.
+  let releaseLogFile: (() => void) | undefined;
+  langClient.onDidChangeState((event) => {
+    if (event.newState === State.Stopped) {
+      releaseLogFile?.();
+      releaseLogFile = undefined;
+    } else if (config.logFilePath && !releaseLogFile) {
+      releaseLogFile = holdLogFile(config.logFilePath);
+    }
+    if (event.newState === State.Starting) {
+      statusBar.update(clientsKey, { status: 'starting', message: undefined });
+    } else if (event.newState === State.Running) {
+      statusBar.update(clientsKey, { status: 'running', message: undefined });
+    } else if (statusBar.statusOf(clientsKey) !== 'crashed') {
+      statusBar.update(clientsKey, { status: 'stopped' });
+    }
+  });
+
+  // The development environment is only evaluated when the server is launched,
+  // so offer to relaunch the server when its definition changes.
+  const disposables: Disposable[] = [];
+  if (hlsExecutable.tag === 'nix' && folder) {
+    const watcher = workspace.createFileSystemWatcher(new RelativePattern(folder, `{${devEnvFiles.join(',')}}`));
+    const onChange = () => void offerDevEnvReload(context, statusBar, clientsKey);
+    disposables.push(
+      watcher,
+      watcher.onDidChange(onChange),
+      watcher.onDidCreate(onChange),
+      watcher.onDidDelete(onChange),
+    );
+  }
+
   // Finally start the client and add it to the list of clients.
   logger.info('Starting language server');
   clients.set(clientsKey, {
     client: langClient,
     config,
+    logger,
+    hlsExecutable,
+    uri,
+    folder,
+    disposables,
   });
+  const pendingUpdate = pendingToolchainUpdates.get(clientsKey);
+  if (pendingUpdate) {
+    pendingToolchainUpdates.delete(clientsKey);
+    void offerToolchainUpdate(context, statusBar, clientsKey, pendingUpdate);
+  }
   await langClient.start();
 }
 
+/**
+ * Stop the server of a client for good, and release its resources.
+ */
+async function stopClient(langClient: Client) {
+  for (const disposable of langClient.disposables) {
+    disposable.dispose();
+  }
+  langClient.client.info('Stopping the server');
+  await langClient.client.stop();
+}
+
+/**
+ * Stop the server of a client and launch it again, finding the server executable from scratch.
+ *
+ * @param updateToolchainLock Ignore the toolchain lock of the folder and write the newly resolved toolchain to it.
+ */
+async function reactivateServer(
+  context: ExtensionContext,
+  statusBar: HaskellStatusBar,
+  langClient: Client,
+  updateToolchainLock: boolean,
+) {
+  clients.delete(clientKey(langClient.uri, langClient.folder));
+  await stopClient(langClient);
+  await activateServerForFolder(context, statusBar, langClient.uri, langClient.folder, updateToolchainLock);
+}
+
+/**
+ * Explain why no server is started in Restricted Mode, and offer to trust the workspace.
+ */
+async function offerWorkspaceTrust() {
+  if (workspaceTrustOffered) {
+    return;
+  }
+  workspaceTrustOffered = true;
+  const decision = await window.showWarningMessage(
+    'The Haskell language server is not started in Restricted Mode. ' +
+      'It builds the project, which can run arbitrary code, e.g. Template Haskell splices, a custom Setup.hs or the cradle of an hie.yaml. ' +
+      'Trust the workspace if you trust its authors to start the server.',
+    'Manage Workspace Trust',
+  );
+  if (decision === 'Manage Workspace Trust') {
+    await commands.executeCommand(manageTrustCommand);
+  }
+}
+
+/**
+ * Stop the server of a client and launch the same server executable again, with the current settings.
+ */
+async function relaunchServer(context: ExtensionContext, statusBar: HaskellStatusBar, langClient: Client) {
+  clients.delete(clientKey(langClient.uri, langClient.folder));
+  await stopClient(langClient);
+  await activateServerForFolder(context, statusBar, langClient.uri, langClient.folder, false, langClient.hlsExecutable);
+}
+
+/**
+ * Apply changed settings to the running servers they concern, relaunching them or setting them up again as needed.
+ * Servers that failed to start are started again if the settings may fix them.
+ */
+async function applyConfigChange(
+  context: ExtensionContext,
+  statusBar: HaskellStatusBar,
+  event: ConfigurationChangeEvent,
+) {
+  if (!event.affectsConfiguration('haskell')) {
+    return;
+  }
+  // the toolchain is found with the settings of this snapshot
+  fetchConfig();
+  // relaunched servers are added to `clients` again
+  for (const langClient of [...clients.values()]) {
+    // servers that are being set up read the settings after the change, or will be set up again by the user
+    if (!langClient) {
+      continue;
+    }
+    const { action, settings } = classifyConfigChange(event, langClient.folder ?? langClient.uri);
+    const changed = settings.map((setting) => `"haskell.${setting}"`).join(', ');
+    if (action === 'push') {
+      langClient.logger.info(`Sent the changed settings ${changed} to the server`);
+    } else if (action === 'restart') {
+      langClient.logger.info(`Relaunching the server to apply the changed settings ${changed}`);
+      void window.showInformationMessage(`Restarted the server of ${langClient.config.langName} to apply ${changed}.`);
+      await relaunchServer(context, statusBar, langClient);
+    } else if (action === 'resolve') {
+      langClient.logger.info(`Setting up the toolchain again to apply the changed settings ${changed}`);
+      void window.showInformationMessage(
+        `Setting up the toolchain of ${langClient.config.langName} again, as ${changed} changed.`,
+      );
+      await reactivateServer(context, statusBar, langClient, false);
+    }
+  }
+  // servers that failed to start with the previous settings may start now
+  const { action } = classifyConfigChange(event);
+  if (action === 'restart' || action === 'resolve') {
+    for (const document of workspace.textDocuments) {
+      await activateServer(context, statusBar, document);
+    }
+  }
+}
+
+/**
+ * Let the user know that the server was launched from an outdated cached toolchain,
+ * and offer to restart it with the new toolchain.
+ */
+async function offerToolchainUpdate(
+  context: ExtensionContext,
+  statusBar: HaskellStatusBar,
+  key: string,
+  toolchain: ToolchainLock,
+) {
+  const langClient = clients.get(key);
+  if (langClient === null) {
+    // the server is still being launched, offer the update once it is running
+    pendingToolchainUpdates.set(key, toolchain);
+    return;
+  } else if (!langClient) {
+    return;
+  }
+  const decision = await window.showInformationMessage(
+    `The toolchain of ${langClient.config.langName} changed to ${formatToolchain(toolchain)}. Restart the server to use it?`,
+    'Restart Server',
+  );
+  if (decision === 'Restart Server') {
+    await reactivateServer(context, statusBar, langClient, false);
+  }
+}
+
+/**
+ * Offer to relaunch a server after the definition of its development environment changed.
+ */
+async function offerDevEnvReload(context: ExtensionContext, statusBar: HaskellStatusBar, key: string) {
+  const langClient = clients.get(key);
+  if (!langClient) {
+    return;
+  }
+  const decision = await window.showInformationMessage(
+    `The development environment of ${langClient.config.langName} changed. Restart the server to use it?`,
+    'Restart Server',
+  );
+  // the client may have been replaced in the meantime
+  if (decision === 'Restart Server' && clients.get(key) === langClient) {
+    await reactivateServer(context, statusBar, langClient, false);
+  }
+}
+
+/**
+ * Compare the toolchain lock of a client's folder with the toolchain that is installed and in use,
+ * and offer to fix any differences.
+ */
+async function showToolchainLockDrift(context: ExtensionContext, statusBar: HaskellStatusBar, langClient: Client) {
+  const { config, logger, hlsExecutable } = langClient;
+  let drift: string[];
+  try {
+    const lock = readToolchainLock(config.workingDir, logger);
+    if (!lock) {
+      void window.showInformationMessage(
+        `${config.langName} has no toolchain lock. Use "Haskell: Update toolchain lock" to create one.`,
+      );
+      return;
+    }
+    const ghcup = initDefaultGHCup(config.ghcupConfig, logger, langClient.folder);
+    drift = await toolchainLockDrift(lock, hlsExecutable.tag === 'ghcup' ? hlsExecutable.toolchain : {}, ghcup);
+  } catch (e) {
+    await handleInitializationError(e, logger);
+    return;
+  }
+
+  if (drift.length === 0) {
+    void window.showInformationMessage(`The toolchain of ${config.langName} matches its toolchain lock.`);
+    return;
+  }
+  drift.forEach((d) => logger.warn(`Toolchain lock drift: ${d}`));
+  const decision = await window.showWarningMessage(
+    `The toolchain of ${config.langName} differs from its toolchain lock: ${drift.join('; ')}`,
+    'Install locked toolchain',
+    'Update toolchain lock',
+  );
+  if (decision === 'Install locked toolchain') {
+    await reactivateServer(context, statusBar, langClient, false);
+  } else if (decision === 'Update toolchain lock') {
+    await reactivateServer(context, statusBar, langClient, true);
+  }
+}
+
+/**
+ * Let the user decide what to do after the server crashed too often to be restarted automatically.
+ *
+ * @param langClient The client of the crashed server.
+ * @param outputChannel Output channel of the client.
+ * @param report Creates the crash report, if the user asks for it.
+ */
+async function offerCrashRecovery(langClient: LanguageClient, outputChannel: OutputChannel, report: () => string) {
+  const decision = await window.showErrorMessage(
+    `The language server of ${langClient.name} crashed repeatedly and was stopped.`,
+    'Restart',
+    'Open Logs',
+    'Copy crash report',
+  );
+  if (decision === 'Restart') {
+    langClient.info('Starting the server');
+    await langClient.start();
+  } else if (decision === 'Open Logs') {
+    outputChannel.show();
+  } else if (decision === 'Copy crash report') {
+    await env.clipboard.writeText(report());
+    void window.showInformationMessage('Copied the crash report to the clipboard.');
+  }
+}
+
 /**
  * Handle errors the extension may throw. Errors are expected to be fatal.
  *
  * @param e Error thrown during the extension initialization.
  * @param logger
+ * @param fix Workspace folder of the server that failed to start, to offer quick fixes for.
+ * @returns Whether the user applied a quick fix, so that starting the server again may succeed.
  */
-async function handleInitializationError(e: unknown, logger: Logger) {
+async function handleInitializationError(e: unknown, logger: Logger, fix?: ErrorFixContext): Promise<boolean> {
+  let fixed = false;
   if (e instanceof MissingToolError) {
-    const link = e.installLink();
+    logger.error(describeError(e));
+    fixed = await offerMissingToolFixes(e, logger, fix);
+  } else if (e instanceof NoMatchingHls) {
+    logger.error(describeError(e));
+    fixed = await offerNoMatchingHlsFixes(e, logger, fix);
+  } else if (e instanceof UserCancelledError) {
+    logger.warn(describeError(e));
+  } else if (e instanceof HlsError) {
+    logger.error(describeError(e));
+    const link = e.docLink();
     if (link) {
-      if (await window.showErrorMessage(e.message, `Install ${e.tool}`)) {
+      if (await window.showErrorMessage(describeError(e), 'Open documentation')) {
         env.openExternal(link);
       }
     } else {
-      await window.showErrorMessage(e.message);
-    }
-  } else if (e instanceof HlsError) {
-    logger.error(`General HlsError: ${e.message}`);
-    window.showErrorMessage(e.message);
-  } else if (e instanceof NoMatchingHls) {
-    const link = e.docLink();
-    logger.error(`${e.message}`);
-    if (await window.showErrorMessage(e.message, 'Open documentation')) {
-      env.openExternal(link);
+      window.showErrorMessage(describeError(e));
     }
   } else if (e instanceof Error) {
     logger.error(`Internal Error: ${e.message}`);
@@ -319,12 +1008,37 @@ async function handleInitializationError(e: unknown, logger: Logger) {
       logger.error(`${e.stack}`);
     }
   }
+  return fixed;
+}
+
+/**
+ * Compute the command line for running the server executable with the given arguments.
+ *
+ * Usually, this is just the server executable itself. A server in a container is run
+ * via the container runner, and paths in the arguments are translated to container paths.
+ *
+ * @returns The command and its arguments.
+ */
+function serverCommandLine(hlsExecutable: HlsExecutable, args: string[]): [string, string[]] {
+  if (hlsExecutable.tag === 'container') {
+    const containerArgs = args.map((arg) =>
+      path.isAbsolute(arg) ? hostToContainerPath(arg, hlsExecutable.pathMappings) : arg,
+    );
+    return [hlsExecutable.location, [...hlsExecutable.args, ...containerArgs]];
+  }
+  return [hlsExecutable.location, args];
 }
 
 function initServerEnvironment(config: Config, hlsExecutable: HlsExecutable) {
   let serverEnvironment: IEnvVars = config.serverEnvironment;
-  if (hlsExecutable.tag === 'ghcup') {
-    const newPath = addPathToProcessPath(hlsExecutable.binaryDirectory);
+  if (hlsExecutable.tag === 'nix') {
+    // settings of the user still take precedence over the development environment
+    serverEnvironment = {
+      ...hlsExecutable.environment,
+      ...serverEnvironment,
+    };
+  } else if (hlsExecutable.tag === 'ghcup') {
+    const newPath = addPathToProcessPath(hlsExecutable.binaryDirectory, workspaceFolderOf(config.workingDir));
     serverEnvironment = {
       ...serverEnvironment,
       ...{ PATH: newPath },
@@ -344,4 +1058,5 @@ export async function deactivate() {
     }
   }
   await Promise.all(promises);
+  await flushLogs();
 }
@@ -3,8 +3,8 @@ import * as os from 'os';
 import * as process from 'process';
 import { WorkspaceFolder } from 'vscode';
 import { Logger } from 'vscode-languageclient';
-import { MissingToolError } from './errors';
-import { resolvePathPlaceHolders, executableExists, callAsync, ProcessCallback, IEnvVars } from './utils';
+import { ExecutableNotFoundError, GHCupError, HlsError, MissingToolError } from './errors';
+import { substituteVariables, executableExists, callAsync, ProcessCallback, IEnvVars } from './utils';
 import { match } from 'ts-pattern';
 
 export type Tool = 'hls' | 'ghc' | 'cabal' | 'stack';
@@ -13,16 +13,26 @@ export type ToolConfig = Map<Tool, string | null>;
 
 export function initDefaultGHCup(config: GHCupConfig, logger: Logger, folder?: WorkspaceFolder): GHCup {
   const ghcupLoc = findGHCup(logger, config.executablePath, folder);
-  return new GHCup(logger, ghcupLoc, config, {
-    // omit colourful output because the logs are uglier
-    NO_COLOR: '1',
-  });
+  return new GHCup(
+    logger,
+    ghcupLoc,
+    config,
+    {
+      // omit colourful output because the logs are uglier
+      NO_COLOR: '1',
+    },
+    folder,
+  );
 }
 
 export type GHCupConfig = {
   metadataUrl?: string;
   upgradeGHCup: boolean;
   executablePath?: string;
+  /**
+   * Never touch the network, only use installed tools and cached metadata.
+   */
+  offline: boolean;
 };
 
 export type ToolInfo = {
@@ -37,6 +47,10 @@ export class GHCup {
     readonly location: string,
     readonly config: GHCupConfig,
     readonly environment: IEnvVars,
+    /**
+     * The workspace folder ghcup runs for, whose `haskell.serverEnvironment` applies.
+     */
+    readonly folder?: WorkspaceFolder,
   ) {}
 
   /**
@@ -54,24 +68,39 @@ export class GHCup {
     callback?: ProcessCallback,
   ): Promise<string> {
     const metadataUrl = this.config.metadataUrl; // ;
-    return await callAsync(
+    const result = callAsync(
       this.location,
-      ['--no-verbose'].concat(metadataUrl ? ['-s', metadataUrl] : []).concat(args),
+      ['--no-verbose']
+        .concat(this.config.offline ? ['--offline'] : [])
+        .concat(metadataUrl ? ['-s', metadataUrl] : [])
+        .concat(args),
       this.logger,
       undefined,
       title,
       cancellable,
       this.environment,
       callback,
+      this.folder,
     );
+    if (callback) {
+      return await result;
+    }
+    return await Promise.resolve(result).catch((e) => {
+      // errors of our own (e.g. cancellation) are precise already
+      throw e instanceof HlsError && e.code !== 'HLS-E000'
+        ? e
+        : new GHCupError(`ghcup ${args.join(' ')} failed: ${e instanceof Error ? e.message : String(e)}`, e);
+    });
   }
 
   /**
-   * Upgrade the `ghcup` binary unless this option was disabled by the user.
+   * Upgrade the `ghcup` binary unless this option was disabled by the user, or we are offline.
    */
   public async upgrade(): Promise<void> {
     const upgrade = this.config.upgradeGHCup;
-    if (upgrade) {
+    if (upgrade && this.config.offline) {
+      this.logger.info('Offline mode: not upgrading ghcup');
+    } else if (upgrade) {
       await this.call(['upgrade'], 'Upgrading ghcup', true);
     }
   }
@@ -96,6 +125,7 @@ export class GHCup {
   /**
    * Find the latest version of a {@link Tool} that we can find in GHCup.
    * Prefer already installed versions, but fall back to all available versions, if there aren't any.
+   * In offline mode, only installed versions are considered.
    * @param tool Tool you want to know the latest version of.
    * @returns The latest installed or generally available version of the {@link tool}
    */
@@ -105,6 +135,8 @@ export class GHCup {
     const latestInstalled = installedVersions.pop();
     if (latestInstalled) {
       return latestInstalled;
+    } else if (this.config.offline) {
+      return null;
     } else {
       return this.getLatestAvailableVersion(tool);
     }
@@ -120,6 +152,45 @@ export class GHCup {
     return await this.listTool(tool, 'installed');
   }
 
+  /**
+   * Find all versions of a {@link Tool} that GHCup can install.
+   *
+   * @param tool Tool you want to know the available versions of.
+   * @returns All available versions of the {@link tool}, with their tags.
+   */
+  public async getAllAvailableVersions(tool: Tool): Promise<ToolInfo[]> {
+    return await this.listTool(tool, 'available');
+  }
+
+  /**
+   * Install a version of a {@link Tool}, without setting it.
+   */
+  public async install(tool: Tool, version: string): Promise<void> {
+    await this.call(['install', tool, version], `Installing ${tool} ${version}`, true);
+  }
+
+  /**
+   * Make a version of a {@link Tool} the default one, i.e. the one on the PATH.
+   */
+  public async set(tool: Tool, version: string): Promise<void> {
+    await this.call(['set', tool, version], `Setting ${tool} ${version}`, false);
+  }
+
+  /**
+   * Uninstall a version of a {@link Tool}.
+   */
+  public async remove(tool: Tool, version: string): Promise<void> {
+    await this.call(['rm', tool, version], `Uninstalling ${tool} ${version}`, false);
+  }
+
+  /**
+   * Free disk space, see `ghcup gc --help`.
+   * @param options Flags selecting what to clean up, e.g. `--cache`.
+   */
+  public async garbageCollect(options: string[]): Promise<void> {
+    await this.call(['gc', ...options], 'Cleaning up ghcup', true);
+  }
+
   /**
    * Find the latest available version that we can find in GHCup with a certain {@link tag}.
    * Corresponds to the `ghcup list -t <tool> -c available -r` command.
@@ -139,7 +210,7 @@ export class GHCup {
       }
     });
     if (!latestAvailable) {
-      throw new Error(`Unable to find ${tag} tool ${tool}`);
+      throw new GHCupError(`Unable to find ${tag} tool ${tool}`);
     } else {
       return latestAvailable;
     }
@@ -185,7 +256,7 @@ export class GHCup {
     if (toolInfo) return toolInfo;
     toolInfo = await this.getAnyLatestVersion(tool);
     if (toolInfo) return toolInfo;
-    throw new Error(`Unable to find a version for tool ${tool}`);
+    throw new GHCupError(`Unable to find a version for tool ${tool}`);
   }
 }
 
@@ -193,15 +264,15 @@ function findGHCup(logger: Logger, exePath?: string, folder?: WorkspaceFolder):
   logger.info('Checking for ghcup installation');
   if (exePath) {
     logger.info(`Trying to find the ghcup executable in: ${exePath}`);
-    exePath = resolvePathPlaceHolders(exePath, folder);
+    exePath = substituteVariables(exePath, 'haskell.ghcupExecutablePath', folder);
     logger.log(`Location after path variables substitution: ${exePath}`);
-    if (executableExists(exePath)) {
+    if (executableExists(exePath, undefined, folder)) {
       return exePath;
     } else {
-      throw new Error(`Could not find a ghcup binary at ${exePath}!`);
+      throw new ExecutableNotFoundError('a ghcup binary', exePath, 'haskell.ghcupExecutablePath');
     }
   } else {
-    const localGHCup = ['ghcup'].find(executableExists);
+    const localGHCup = ['ghcup'].find((exe) => executableExists(exe, undefined, folder));
     if (!localGHCup) {
       logger.info(`probing for GHCup binary`);
       const ghcupExe: string | null = match(process.platform)
@@ -231,7 +302,7 @@ function findGHCup(logger: Logger, exePath?: string, folder?: WorkspaceFolder):
             }
           }
         });
-      if (ghcupExe !== null && executableExists(ghcupExe)) {
+      if (ghcupExe !== null && executableExists(ghcupExe, undefined, folder)) {
         return ghcupExe;
       } else {
         logger.warn(`ghcup at ${ghcupExe} does not exist`);
@@ -1,18 +1,48 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { ConfigurationTarget, ExtensionContext, window, workspace, WorkspaceFolder } from 'vscode';
+import {
+  ConfigurationTarget,
+  ExtensionContext,
+  window,
+  workspace,
+  WorkspaceConfiguration,
+  WorkspaceFolder,
+} from 'vscode';
 import { Logger } from 'vscode-languageclient';
-import { HlsError, MissingToolError, NoMatchingHls } from './errors';
+import {
+  CradleError,
+  describeError,
+  ExecutableNotFoundError,
+  GHCupError,
+  HlsError,
+  MissingToolError,
+  NoMatchingHls,
+  UserCancelledError,
+} from './errors';
 import {
   addPathToProcessPath,
   callAsync,
   comparePVP,
   executableExists,
   IEnvVars,
-  resolvePathPlaceHolders,
+  substituteVariables,
+  workspaceFolderOf,
 } from './utils';
 import { ToolConfig, Tool, initDefaultGHCup, GHCup, GHCupConfig } from './ghcup';
 import { getHlsMetadata } from './metadata';
+import { validSetting } from './configValidation';
+import { loadDevEnvironment } from './devEnv';
+import { parsePathMappings, PathMapping } from './container';
+import * as which from 'which';
+import {
+  formatToolchain,
+  readToolchainLock,
+  ToolchainLock,
+  ToolchainLockMode,
+  writeToolchainLock,
+} from './toolchainLock';
+import { readCachedToolchain, removeCachedToolchain, toolchainCacheKey, writeCachedToolchain } from './toolchainCache';
+import { getStackProjectGhcVersion, installStackGhcupHook, isStackProject, StackGhcManagement } from './stack';
 export { IEnvVars, fetchConfig };
 
 export type Context = {
@@ -32,12 +62,12 @@ let haskellConfig = workspace.getConfiguration('haskell');
  */
 const exeExt = process.platform === 'win32' ? '.exe' : '';
 
-type ManageHLS = 'GHCup' | 'PATH';
+export type ManageHLS = 'GHCup' | 'PATH' | 'Nix' | 'Container';
 let manageHLS = haskellConfig.get('manageHLS') as ManageHLS;
 
 function fetchConfig() {
   haskellConfig = workspace.getConfiguration('haskell');
-  manageHLS = haskellConfig.get('manageHLS') as ManageHLS;
+  manageHLS = validSetting(haskellConfig, 'manageHLS');
 }
 
 /**
@@ -49,29 +79,58 @@ function fetchConfig() {
 function findServerExecutable(logger: Logger, folder?: WorkspaceFolder): string {
   const rawExePath = haskellConfig.get('serverExecutablePath') as string;
   logger.info(`Trying to find the server executable in: ${rawExePath}`);
-  const resolvedExePath = resolvePathPlaceHolders(rawExePath, folder);
+  const resolvedExePath = substituteVariables(rawExePath, 'haskell.serverExecutablePath', folder);
   logger.log(`Location after path variables substitution: ${resolvedExePath}`);
-  if (executableExists(resolvedExePath)) {
+  if (executableExists(resolvedExePath, undefined, folder)) {
     return resolvedExePath;
   } else {
-    const msg = `Could not find a HLS binary at ${resolvedExePath}! Consider installing HLS via ghcup or change "haskell.manageHLS" in your settings.`;
-    throw new HlsError(msg);
+    throw new ExecutableNotFoundError('a HLS binary', resolvedExePath, 'haskell.serverExecutablePath');
+  }
+}
+
+/**
+ * Reads the `haskell.container.*` settings, and checks that the container runner exists.
+ * @param logger Log progress.
+ * @param folder Workspace folder. Used for resolving variables in the path mappings.
+ * @returns The container runner, with the arguments for launching HLS inside the container.
+ */
+function findContainerRunner(logger: Logger, folder?: WorkspaceFolder): HlsInContainer {
+  const runner: string[] = haskellConfig.get('container.command') ?? [];
+  const serverExecutable = haskellConfig.get('container.serverExecutable') as string;
+  if (runner.length === 0) {
+    throw new HlsError(
+      'Set "haskell.container.command" to the command that runs a program in your container, e.g. ["docker", "exec", "-i", "my-container"].',
+    );
   }
+  logger.info(`Running the server in a container via: ${runner.join(' ')} ${serverExecutable}`);
+  if (!executableExists(runner[0], undefined, folder)) {
+    throw new MissingToolError(runner[0]);
+  }
+  const pathMappings = parsePathMappings(haskellConfig.get('container.pathMappings') ?? {}, folder);
+  pathMappings.forEach((m) => logger.info(`Mapping host path ${m.host} to container path ${m.container}`));
+  return {
+    location: runner[0],
+    args: [...runner.slice(1), serverExecutable],
+    pathMappings,
+    tag: 'container',
+  };
 }
 
 /**
  * Searches the `PATH` for `haskell-language-server` or `haskell-language-server-wrapper` binary.
  * Fails if nothing is found.
  * @param logger Log all the stuff!
+ * @param environment Environment to search in, if it differs from the environment of the extension.
+ * @param folder Workspace folder whose `haskell.serverEnvironment` applies.
  * @returns Location of the `haskell-language-server` or `haskell-language-server-wrapper` binary if found.
  */
-function findHlsInPath(logger: Logger): string {
+function findHlsInPath(logger: Logger, environment?: IEnvVars, folder?: WorkspaceFolder): string {
   // try PATH
   const exes: string[] = ['haskell-language-server-wrapper', 'haskell-language-server'];
   logger.info(`Searching for server executables ${exes.join(',')} in $PATH`);
-  logger.info(`$PATH environment variable: ${process.env.PATH}`);
+  logger.info(`$PATH environment variable: ${environment?.PATH ?? process.env.PATH}`);
   for (const exe of exes) {
-    if (executableExists(exe)) {
+    if (executableExists(exe, environment, folder)) {
       logger.info(`Found server executable in $PATH: ${exe}`);
       return exe;
     }
@@ -79,7 +138,7 @@ function findHlsInPath(logger: Logger): string {
   throw new MissingToolError('hls');
 }
 
-export type HlsExecutable = HlsOnPath | HlsViaVSCodeConfig | HlsViaGhcup;
+export type HlsExecutable = HlsOnPath | HlsViaVSCodeConfig | HlsViaGhcup | HlsViaDevEnv | HlsInContainer;
 
 export type HlsOnPath = {
   location: string;
@@ -91,15 +150,61 @@ export type HlsViaVSCodeConfig = {
   tag: 'config';
 };
 
+export type HlsViaDevEnv = {
+  location: string;
+  /**
+   * the environment of the direnv or Nix development shell, the server must run in it
+   */
+  environment: IEnvVars;
+  tag: 'nix';
+};
+
+export type HlsInContainer = {
+  /**
+   * the container runner, e.g. 'docker'
+   */
+  location: string;
+  /**
+   * arguments of the container runner, followed by the HLS executable inside the container
+   */
+  args: string[];
+  /**
+   * how paths on the host are mapped into the container
+   */
+  pathMappings: PathMapping[];
+  tag: 'container';
+};
+
 export type HlsViaGhcup = {
   location: string;
   /**
    * if we download HLS, add that bin dir to PATH
    */
   binaryDirectory: string;
+  /**
+   * GHC version of the project, if we figured it out
+   */
+  ghcVersion?: string;
+  /**
+   * The toolchain we installed for the project
+   */
+  toolchain: ToolchainLock;
   tag: 'ghcup';
 };
 
+export type FindHlsOptions = {
+  /**
+   * Ignore the toolchain lock of the folder and write the newly resolved toolchain to it.
+   */
+  updateToolchainLock?: boolean;
+  /**
+   * Invoked if we started from a cached toolchain, but revalidating it in the background
+   * found that the project would use a different toolchain now. The cache is dropped by then,
+   * so that the next start sets up the new toolchain.
+   */
+  onToolchainChanged?: (toolchain: ToolchainLock) => void;
+};
+
 /**
  * Find and setup the Haskell Language Server.
  *
@@ -108,11 +213,14 @@ export type HlsViaGhcup = {
  * 1. Let the user provide a location via `haskell.serverExecutablePath` option.
  * 2. Find a `haskell-language-server` binary on the `$PATH` if the user wants to do that.
  * 3. Use GHCup to install and locate HLS and other required tools, such as cabal, stack and ghc.
+ * 4. Find HLS in the development environment of the project, as defined by direnv or a Nix flake.
+ * 5. Run HLS inside a container, via a container runner such as `docker exec`.
  *
  * @param context Context of the extension, required for metadata.
  * @param logger Logger for progress updates.
  * @param workingDir Working directory in VSCode.
  * @param folder Optional workspace folder. If given, will be preferred over {@link workingDir} for finding configuration entries.
+ * @param options Further options, see {@link FindHlsOptions}.
  * @returns Path to haskell-language-server, paired with additional data required for setting up.
  */
 export async function findHaskellLanguageServer(
@@ -121,6 +229,7 @@ export async function findHaskellLanguageServer(
   ghcupConfig: GHCupConfig,
   workingDir: string,
   folder?: WorkspaceFolder,
+  options: FindHlsOptions = {},
 ): Promise<HlsExecutable> {
   logger.info('Finding haskell-language-server');
 
@@ -143,211 +252,460 @@ export async function findHaskellLanguageServer(
 
   // based on the user-decision
   if (manageHLS === 'PATH') {
-    const exe = findHlsInPath(logger);
+    const exe = findHlsInPath(logger, undefined, folder);
     return {
       location: exe,
       tag: 'path',
     };
+  } else if (manageHLS === 'Container') {
+    return findContainerRunner(logger, folder);
+  } else if (manageHLS === 'Nix') {
+    const environment = await loadDevEnvironment(workingDir, storagePath, logger);
+    const exe = findHlsInPath(logger, environment, folder);
+    return {
+      // resolve the executable now, the environment of the extension doesn't know about it
+      location: which.sync(exe, { nothrow: true, path: environment.PATH }) ?? exe,
+      environment,
+      tag: 'nix',
+    };
   } else {
     // we manage HLS, make sure ghcup is installed/available
     const ghcup = initDefaultGHCup(ghcupConfig, logger, folder);
-    await ghcup.upgrade();
-
-    // boring init
-    let latestHLS: string | undefined | null;
-    let latestCabal: string | undefined | null;
-    let latestStack: string | undefined | null;
-    let recGHC: string | undefined | null = 'recommended';
-    let projectHls: string | undefined | null;
-    let projectGhc: string | undefined | null;
-
-    // support explicit toolchain config
-    const toolchainConfig = new Map(Object.entries(haskellConfig.get('toolchain') as ToolConfig)) as ToolConfig;
-    if (toolchainConfig) {
-      latestHLS = toolchainConfig.get('hls');
-      latestCabal = toolchainConfig.get('cabal');
-      latestStack = toolchainConfig.get('stack');
-      recGHC = toolchainConfig.get('ghc');
-
-      projectHls = latestHLS;
-      projectGhc = recGHC;
+    // the toolchain may be configured per workspace folder, e.g. by the quick fixes of errors
+    const folderConfig = workspace.getConfiguration('haskell', folder);
+
+    // on a warm start, launch the server right away from the cached toolchain,
+    // and check in the background whether the toolchain is still up to date
+    const useCache = (folderConfig.get('cacheToolchain') as boolean) && !options.updateToolchainLock;
+    const cacheKey = useCache
+      ? await toolchainCacheKey(ghcup, workingDir, {
+          toolchain: validSetting(folderConfig, 'toolchain'),
+          toolchainLock: validSetting(folderConfig, 'toolchainLock'),
+          stackGhcManagement: validSetting(folderConfig, 'stackGhcManagement'),
+          offline: ghcupConfig.offline,
+        })
+      : undefined;
+    const cached = cacheKey ? readCachedToolchain(storagePath, workingDir, cacheKey, logger) : undefined;
+    if (cacheKey && cached) {
+      resolveToolchainVersions(ghcup, logger, storagePath, workingDir, folderConfig, cached)
+        .then(async (fresh) => {
+          if (formatToolchain(fresh) !== formatToolchain(cached.toolchain)) {
+            logger.info(`The toolchain changed since it was cached: ${formatToolchain(fresh)}`);
+            await removeCachedToolchain(storagePath, workingDir, logger);
+            options.onToolchainChanged?.(fresh);
+          } else {
+            logger.info('The cached toolchain is up to date');
+          }
+        })
+        .catch((e) => logger.warn(`Could not revalidate the cached toolchain: ${describeError(e)}`));
+      return cached;
     }
 
-    // get a preliminary toolchain for finding the correct project GHC version
-    // (we need HLS and cabal/stack and ghc as fallback),
-    // later we may install a different toolchain that's more project-specific
-    if (latestHLS === undefined) {
-      latestHLS = await ghcup.getAnyLatestVersion('hls').then((tool) => tool?.version);
-    }
-    if (latestCabal === undefined) {
-      latestCabal = (await ghcup.findLatestUserInstalledTool('cabal')).version;
-    }
-    if (latestStack === undefined) {
-      latestStack = (await ghcup.findLatestUserInstalledTool('stack')).version;
-    }
-    if (recGHC === undefined) {
-      recGHC = !executableExists('ghc') ? (await ghcup.getLatestAvailableVersion('ghc', 'recommended')).version : null;
+    const hlsExecutable = await installToolchainWithGHCup(
+      ghcup,
+      logger,
+      storagePath,
+      workingDir,
+      folderConfig,
+      options,
+    );
+    if (cacheKey) {
+      await writeCachedToolchain(storagePath, workingDir, cacheKey, hlsExecutable, logger);
     }
+    return hlsExecutable;
+  }
+}
+
+/**
+ * Use GHCup to install the toolchain of the project and locate HLS.
+ *
+ * Unless configured otherwise, we install the project's GHC version and the latest HLS supporting it,
+ * as well as the latest cabal and stack. For stack projects, stack may install GHC instead, see {@link StackGhcManagement}.
+ *
+ * @param ghcup GHCup wrapper.
+ * @param logger Logger for progress updates.
+ * @param storagePath Path to put in binary files and caches.
+ * @param workingDir Working directory in VSCode.
+ * @param folderConfig The `haskell` configuration of the workspace folder.
+ * @param options Options passed to {@link findHaskellLanguageServer}.
+ * @returns Path to haskell-language-server and the toolchain it was installed with.
+ */
+async function installToolchainWithGHCup(
+  ghcup: GHCup,
+  logger: Logger,
+  storagePath: string,
+  workingDir: string,
+  folderConfig: WorkspaceConfiguration,
+  options: FindHlsOptions,
+): Promise<HlsViaGhcup> {
+  await ghcup.upgrade();
+
+  // boring init
+  let latestHLS: string | undefined | null;
+  let latestCabal: string | undefined | null;
+  let latestStack: string | undefined | null;
+  let recGHC: string | undefined | null = 'recommended';
+  let projectHls: string | undefined | null;
+  let projectGhc: string | undefined | null;
+
+  // support explicit toolchain config
+  const lockMode = validSetting<ToolchainLockMode>(folderConfig, 'toolchainLock');
+  const toolchainLock =
+    lockMode !== 'off' && !options.updateToolchainLock ? readToolchainLock(workingDir, logger) : undefined;
+  const toolchainConfig = configuredToolchain(folderConfig, toolchainLock);
+
+  if (toolchainConfig) {
+    latestHLS = toolchainConfig.get('hls');
+    latestCabal = toolchainConfig.get('cabal');
+    latestStack = toolchainConfig.get('stack');
+    recGHC = toolchainConfig.get('ghc');
+
+    projectHls = latestHLS;
+    projectGhc = recGHC;
+  }
+
+  // stack projects may leave installing GHC to stack, in which case ghcup shouldn't install a second copy
+  const stackProject = isStackProject(workingDir);
+  const stackGhcManagement = stackProject
+    ? validSetting<StackGhcManagement>(folderConfig, 'stackGhcManagement')
+    : 'ghcup';
+  if (stackGhcManagement !== 'ghcup' && recGHC === undefined) {
+    // no bootstrap GHC either, the project's GHC version comes from its stack.yaml
+    recGHC = null;
+  }
 
-    // download popups
-    const promptBeforeDownloads = haskellConfig.get('promptBeforeDownloads') as boolean;
-    if (promptBeforeDownloads) {
-      const hlsInstalled = latestHLS ? await installationStatusOfGhcupTool(ghcup, 'hls', latestHLS) : undefined;
-      const cabalInstalled = latestCabal ? await installationStatusOfGhcupTool(ghcup, 'cabal', latestCabal) : undefined;
-      const stackInstalled = latestStack ? await installationStatusOfGhcupTool(ghcup, 'stack', latestStack) : undefined;
-      const ghcInstalled = executableExists('ghc')
-        ? new ToolStatus(
-            'ghc',
-            await callAsync(`ghc${exeExt}`, ['--numeric-version'], logger, undefined, undefined, false),
-          )
-        : // if recGHC is null, that means user disabled automatic handling,
-          recGHC !== null
-          ? await installationStatusOfGhcupTool(ghcup, 'ghc', recGHC)
-          : undefined;
-      const toInstall: ToolStatus[] = [hlsInstalled, cabalInstalled, stackInstalled, ghcInstalled].filter(
-        (tool) => tool && !tool.installed,
-      ) as ToolStatus[];
-      if (toInstall.length > 0) {
-        const decision = await window.showInformationMessage(
-          `Need to download ${toInstall.map((t) => t.nameWithVersion).join(', ')}, continue?`,
-          'Yes',
-          'No',
-          "Yes, don't ask again",
+  // offline, we can only use tools that are already installed
+  const offline = ghcup.config.offline;
+  const latestUserInstalled = async (tool: Tool) =>
+    offline
+      ? await ghcup
+          .findLatestUserInstalledTool(tool)
+          .then((t) => t.version)
+          .catch(() => null)
+      : (await ghcup.findLatestUserInstalledTool(tool)).version;
+
+  // get a preliminary toolchain for finding the correct project GHC version
+  // (we need HLS and cabal/stack and ghc as fallback),
+  // later we may install a different toolchain that's more project-specific
+  if (latestHLS === undefined) {
+    latestHLS = await ghcup.getAnyLatestVersion('hls').then((tool) => tool?.version);
+  }
+  if (latestCabal === undefined) {
+    latestCabal = await latestUserInstalled('cabal');
+  }
+  if (latestStack === undefined) {
+    latestStack = await latestUserInstalled('stack');
+  }
+  if (recGHC === undefined) {
+    recGHC = executableExists('ghc', undefined, ghcup.folder)
+      ? null
+      : offline
+        ? await latestUserInstalled('ghc')
+        : (await ghcup.getLatestAvailableVersion('ghc', 'recommended')).version;
+  }
+
+  // download popups
+  const promptBeforeDownloads = haskellConfig.get('promptBeforeDownloads') as boolean;
+  if (promptBeforeDownloads) {
+    const hlsInstalled = latestHLS ? await installationStatusOfGhcupTool(ghcup, 'hls', latestHLS) : undefined;
+    const cabalInstalled = latestCabal ? await installationStatusOfGhcupTool(ghcup, 'cabal', latestCabal) : undefined;
+    const stackInstalled = latestStack ? await installationStatusOfGhcupTool(ghcup, 'stack', latestStack) : undefined;
+    const ghcInstalled = executableExists('ghc', undefined, ghcup.folder)
+      ? new ToolStatus('ghc', await ghcVersion(logger, ghcup.folder))
+      : // if recGHC is null, that means user disabled automatic handling,
+        recGHC !== null
+        ? await installationStatusOfGhcupTool(ghcup, 'ghc', recGHC)
+        : undefined;
+    const toInstall: ToolStatus[] = [hlsInstalled, cabalInstalled, stackInstalled, ghcInstalled].filter(
+      (tool) => tool && !tool.installed,
+    ) as ToolStatus[];
+    if (toInstall.length > 0) {
+      const decision = await window.showInformationMessage(
+        `Need to download ${toInstall.map((t) => t.nameWithVersion).join(', ')}, continue?`,
+        'Yes',
+        'No',
+        "Yes, don't ask again",
+      );
+      if (decision === 'Yes') {
+        logger.info(`User accepted download for ${toInstall.map((t) => t.nameWithVersion).join(', ')}.`);
+      } else if (decision === "Yes, don't ask again") {
+        logger.info(
+          `User accepted download for ${toInstall.map((t) => t.nameWithVersion).join(', ')} and won't be asked again.`,
         );
-        if (decision === 'Yes') {
-          logger.info(`User accepted download for ${toInstall.map((t) => t.nameWithVersion).join(', ')}.`);
-        } else if (decision === "Yes, don't ask again") {
-          logger.info(
-            `User accepted download for ${toInstall.map((t) => t.nameWithVersion).join(', ')} and won't be asked again.`,
-          );
-          haskellConfig.update('promptBeforeDownloads', false);
-        } else {
-          toInstall.forEach((tool) => {
-            if (tool !== undefined && !tool.installed) {
-              if (tool.name === 'hls') {
-                throw new MissingToolError('hls');
-              } else if (tool.name === 'cabal') {
-                latestCabal = null;
-              } else if (tool.name === 'stack') {
-                latestStack = null;
-              } else if (tool.name === 'ghc') {
-                recGHC = null;
-              }
+        haskellConfig.update('promptBeforeDownloads', false);
+      } else {
+        toInstall.forEach((tool) => {
+          if (tool !== undefined && !tool.installed) {
+            if (tool.name === 'hls') {
+              throw new UserCancelledError(`Downloading ${tool.nameWithVersion}`);
+            } else if (tool.name === 'cabal') {
+              latestCabal = null;
+            } else if (tool.name === 'stack') {
+              latestStack = null;
+            } else if (tool.name === 'ghc') {
+              recGHC = null;
             }
-          });
-        }
+          }
+        });
       }
     }
+  }
 
-    // our preliminary toolchain
-    const latestToolchainBindir = await ghcup.call(
-      [
-        'run',
-        ...(latestHLS ? ['--hls', latestHLS] : []),
-        ...(latestCabal ? ['--cabal', latestCabal] : []),
-        ...(latestStack ? ['--stack', latestStack] : []),
-        ...(recGHC ? ['--ghc', recGHC] : []),
-        '--install',
-      ],
-      'Installing latest toolchain for bootstrap',
-      true,
-      (err, stdout, _stderr, resolve, reject) => {
-        if (err) {
-          reject("Couldn't install latest toolchain");
-        } else {
-          resolve(stdout?.trim());
-        }
-      },
-    );
+  // tools pinned by the configuration or the toolchain lock may not be installed
+  if (offline) {
+    await checkInstalledOffline(ghcup, [
+      ['hls', latestHLS],
+      ['ghc', recGHC],
+      ['cabal', latestCabal],
+      ['stack', latestStack],
+    ]);
+  }
 
-    // now figure out the actual project GHC version and the latest supported HLS version
-    // we need for it (e.g. this might in fact be a downgrade for old GHCs)
-    if (projectHls === undefined || projectGhc === undefined) {
-      const res = await getLatestProjectHls(ghcup, logger, storagePath, workingDir, latestToolchainBindir);
-      if (projectHls === undefined) {
-        projectHls = res[0];
-      }
-      if (projectGhc === undefined) {
-        projectGhc = res[1];
+  // our preliminary toolchain
+  const latestToolchainBindir = await ghcup.call(
+    [
+      'run',
+      ...(latestHLS ? ['--hls', latestHLS] : []),
+      ...(latestCabal ? ['--cabal', latestCabal] : []),
+      ...(latestStack ? ['--stack', latestStack] : []),
+      ...(recGHC ? ['--ghc', recGHC] : []),
+      '--install',
+    ],
+    'Installing latest toolchain for bootstrap',
+    true,
+    (err, stdout, _stderr, resolve, reject) => {
+      if (err) {
+        reject(new GHCupError("Couldn't install latest toolchain", err));
+      } else {
+        resolve(stdout?.trim());
       }
+    },
+  );
+
+  // now figure out the actual project GHC version and the latest supported HLS version
+  // we need for it (e.g. this might in fact be a downgrade for old GHCs)
+  if (projectHls === undefined || projectGhc === undefined) {
+    const res = await getLatestProjectHls(ghcup, logger, storagePath, workingDir, latestToolchainBindir);
+    if (projectHls === undefined) {
+      projectHls = res[0];
+    }
+    if (projectGhc === undefined) {
+      projectGhc = res[1];
     }
+  }
+
+  // the GHC ghcup installs for the project, if any
+  let ghcupGhc = projectGhc;
+  if (stackGhcManagement !== 'ghcup') {
+    const viaHook = stackGhcManagement === 'stackHook' && (await installStackGhcupHook(logger));
+    logger.info(
+      `GHC ${projectGhc ?? '<unknown>'} of this stack project is managed by stack` +
+        (viaHook ? ', which installs it via ghcup' : ', which installs it on its own'),
+    );
+    ghcupGhc = null;
+  } else if (projectGhc) {
+    logger.info(
+      `GHC ${projectGhc} is managed by ghcup` +
+        (stackProject ? ', stack may still install its own copy unless it is configured to use the system GHC' : ''),
+    );
+  }
 
-    // more download popups
-    if (promptBeforeDownloads) {
-      const hlsInstalled = projectHls ? await installationStatusOfGhcupTool(ghcup, 'hls', projectHls) : undefined;
-      const ghcInstalled = projectGhc ? await installationStatusOfGhcupTool(ghcup, 'ghc', projectGhc) : undefined;
-      const toInstall: ToolStatus[] = [hlsInstalled, ghcInstalled].filter(
-        (tool) => tool && !tool.installed,
-      ) as ToolStatus[];
-      if (toInstall.length > 0) {
-        const decision = await window.showInformationMessage(
-          `Need to download ${toInstall.map((t) => t.nameWithVersion).join(', ')}, continue?`,
-          { modal: true },
-          'Yes',
-          'No',
-          "Yes, don't ask again",
+  // more download popups
+  if (promptBeforeDownloads) {
+    const hlsInstalled = projectHls ? await installationStatusOfGhcupTool(ghcup, 'hls', projectHls) : undefined;
+    const ghcInstalled = ghcupGhc ? await installationStatusOfGhcupTool(ghcup, 'ghc', ghcupGhc) : undefined;
+    const toInstall: ToolStatus[] = [hlsInstalled, ghcInstalled].filter(
+      (tool) => tool && !tool.installed,
+    ) as ToolStatus[];
+    if (toInstall.length > 0) {
+      const decision = await window.showInformationMessage(
+        `Need to download ${toInstall.map((t) => t.nameWithVersion).join(', ')}, continue?`,
+        { modal: true },
+        'Yes',
+        'No',
+        "Yes, don't ask again",
+      );
+      if (decision === 'Yes') {
+        logger.info(`User accepted download for ${toInstall.map((t) => t.nameWithVersion).join(', ')}.`);
+      } else if (decision === "Yes, don't ask again") {
+        logger.info(
+          `User accepted download for ${toInstall.map((t) => t.nameWithVersion).join(', ')} and won't be asked again.`,
         );
-        if (decision === 'Yes') {
-          logger.info(`User accepted download for ${toInstall.map((t) => t.nameWithVersion).join(', ')}.`);
-        } else if (decision === "Yes, don't ask again") {
-          logger.info(
-            `User accepted download for ${toInstall.map((t) => t.nameWithVersion).join(', ')} and won't be asked again.`,
-          );
-          haskellConfig.update('promptBeforeDownloads', false);
-        } else {
-          toInstall.forEach((tool) => {
-            if (!tool.installed) {
-              if (tool.name === 'hls') {
-                throw new MissingToolError('hls');
-              } else if (tool.name === 'ghc') {
-                projectGhc = null;
-              }
+        haskellConfig.update('promptBeforeDownloads', false);
+      } else {
+        toInstall.forEach((tool) => {
+          if (!tool.installed) {
+            if (tool.name === 'hls') {
+              throw new UserCancelledError(`Downloading ${tool.nameWithVersion}`);
+            } else if (tool.name === 'ghc') {
+              projectGhc = null;
+              ghcupGhc = null;
             }
-          });
-        }
+          }
+        });
       }
     }
+  }
 
-    // now install the proper versions
-    const hlsBinDir = await ghcup.call(
-      [
-        'run',
-        ...(projectHls ? ['--hls', projectHls] : []),
-        ...(latestCabal ? ['--cabal', latestCabal] : []),
-        ...(latestStack ? ['--stack', latestStack] : []),
-        ...(projectGhc ? ['--ghc', projectGhc] : []),
-        '--install',
-      ],
-      `Installing project specific toolchain: ${[
-        ['hls', projectHls],
-        ['GHC', projectGhc],
-        ['cabal', latestCabal],
-        ['stack', latestStack],
-      ]
-        .filter((t) => t[1])
-        .map((t) => `${t[0]}-${t[1]}`)
-        .join(', ')}`,
-      true,
-    );
+  if (offline) {
+    await checkInstalledOffline(ghcup, [
+      ['hls', projectHls],
+      ['ghc', ghcupGhc],
+      ['cabal', latestCabal],
+      ['stack', latestStack],
+    ]);
+  }
 
-    if (projectHls) {
-      return {
-        binaryDirectory: hlsBinDir,
-        location: path.join(hlsBinDir, `haskell-language-server-wrapper${exeExt}`),
-        tag: 'ghcup',
-      };
-    } else {
-      return {
-        binaryDirectory: hlsBinDir,
-        location: findHlsInPath(logger),
-        tag: 'ghcup',
-      };
+  // now install the proper versions
+  const hlsBinDir = await ghcup.call(
+    [
+      'run',
+      ...(projectHls ? ['--hls', projectHls] : []),
+      ...(latestCabal ? ['--cabal', latestCabal] : []),
+      ...(latestStack ? ['--stack', latestStack] : []),
+      ...(ghcupGhc ? ['--ghc', ghcupGhc] : []),
+      '--install',
+    ],
+    `Installing project specific toolchain: ${[
+      ['hls', projectHls],
+      ['GHC', ghcupGhc],
+      ['cabal', latestCabal],
+      ['stack', latestStack],
+    ]
+      .filter((t) => t[1])
+      .map((t) => `${t[0]}-${t[1]}`)
+      .join(', ')}`,
+    true,
+  );
+
+  const toolchain = { hls: projectHls, ghc: projectGhc, cabal: latestCabal, stack: latestStack };
+  if (options.updateToolchainLock || (lockMode === 'create' && !toolchainLock)) {
+    await writeToolchainLock(workingDir, toolchain, ghcup, logger);
+  }
+  const resolvedToolchain: ToolchainLock = Object.fromEntries(
+    Object.entries(toolchain).filter((entry): entry is [Tool, string] => !!entry[1]),
+  );
+
+  if (projectHls) {
+    return {
+      binaryDirectory: hlsBinDir,
+      location: path.join(hlsBinDir, `haskell-language-server-wrapper${exeExt}`),
+      ghcVersion: projectGhc ?? undefined,
+      toolchain: resolvedToolchain,
+      tag: 'ghcup',
+    };
+  } else {
+    return {
+      binaryDirectory: hlsBinDir,
+      location: findHlsInPath(logger),
+      ghcVersion: projectGhc ?? undefined,
+      toolchain: resolvedToolchain,
+      tag: 'ghcup',
+    };
+  }
+}
+
+/**
+ * Offline, ghcup can't install anything. Fail with instructions if any of the tools isn't installed.
+ *
+ * @param ghcup GHCup wrapper.
+ * @param toolchain The tools that are going to be used, with their versions. Tools without version are skipped.
+ */
+export async function checkInstalledOffline(
+  ghcup: GHCup,
+  toolchain: [Tool, string | null | undefined][],
+): Promise<void> {
+  const missing: ToolStatus[] = [];
+  for (const [tool, version] of toolchain) {
+    const status = version ? await installationStatusOfGhcupTool(ghcup, tool, version) : undefined;
+    if (status && !status.installed) {
+      missing.push(status);
     }
   }
+  if (missing.length > 0) {
+    throw new HlsError(
+      `Offline mode: the project needs ${missing.map((t) => t.nameWithVersion).join(', ')}, which is not installed. ` +
+        `Install it with ${missing.map((t) => `'ghcup install ${t.name} ${t.version}'`).join(', ')} while online, ` +
+        'or disable "haskell.offline" in your settings.',
+    );
+  }
 }
 
-async function promptUserForManagingHls(context: ExtensionContext, manageHlsSetting: ManageHLS): Promise<ManageHLS> {
-  if (manageHlsSetting !== 'GHCup' && (!context.globalState.get('pluginInitialized') as boolean | null)) {
+/**
+ * The tools configured in `haskell.toolchain`, completed by the toolchain lock of the project, if any.
+ * A toolchain lock takes precedence over auto-detection, but tools configured explicitly in `haskell.toolchain` still win.
+ */
+function configuredToolchain(
+  folderConfig: WorkspaceConfiguration,
+  toolchainLock: ToolchainLock | undefined,
+): ToolConfig {
+  const toolchainConfig = new Map(
+    Object.entries(validSetting<{ [tool: string]: string }>(folderConfig, 'toolchain')),
+  ) as ToolConfig;
+  Object.entries(toolchainLock ?? {}).forEach(([tool, version]) => {
+    if (!toolchainConfig.has(tool as Tool)) {
+      toolchainConfig.set(tool as Tool, version);
+    }
+  });
+  return toolchainConfig;
+}
+
+/**
+ * Work out which toolchain a project with a cached toolchain would use now, like {@link installToolchainWithGHCup},
+ * but without installing anything or asking the user. The project GHC version is taken from the cache,
+ * it only changes with the build files, which invalidate the cache.
+ *
+ * @param ghcup GHCup wrapper.
+ * @param logger Logger for progress updates.
+ * @param storagePath Path to put in binary files and caches.
+ * @param workingDir Working directory in VSCode.
+ * @param folderConfig The `haskell` configuration of the workspace folder.
+ * @param cached The cached toolchain.
+ * @returns The toolchain, in the form of {@link HlsViaGhcup.toolchain}.
+ */
+async function resolveToolchainVersions(
+  ghcup: GHCup,
+  logger: Logger,
+  storagePath: string,
+  workingDir: string,
+  folderConfig: WorkspaceConfiguration,
+  cached: HlsViaGhcup,
+): Promise<ToolchainLock> {
+  const lockMode = validSetting<ToolchainLockMode>(folderConfig, 'toolchainLock');
+  const toolchainConfig = configuredToolchain(
+    folderConfig,
+    lockMode !== 'off' ? readToolchainLock(workingDir, logger) : undefined,
+  );
+  const latestUserInstalled = (tool: Tool) =>
+    ghcup
+      .findLatestUserInstalledTool(tool)
+      .then((t) => t.version)
+      .catch(() => null);
+
+  const ghc = toolchainConfig.has('ghc') ? toolchainConfig.get('ghc') : cached.toolchain.ghc;
+  const projectGhc = cached.ghcVersion;
+  const hls = toolchainConfig.has('hls')
+    ? toolchainConfig.get('hls')
+    : projectGhc
+      ? await latestHlsSupporting(ghcup, logger, storagePath, projectGhc, true)
+      : cached.toolchain.hls;
+  const cabal = toolchainConfig.has('cabal') ? toolchainConfig.get('cabal') : await latestUserInstalled('cabal');
+  const stack = toolchainConfig.has('stack') ? toolchainConfig.get('stack') : await latestUserInstalled('stack');
+
+  return Object.fromEntries(
+    Object.entries({ hls, ghc, cabal, stack }).filter((entry): entry is [Tool, string] => !!entry[1]),
+  );
+}
+
+/**
+ * Ask the user how to manage HLS on the first start of the extension, unless they chose a way already.
+ * Only the default `PATH` may not have been chosen on purpose, a development environment or a container always is.
+ */
+export async function promptUserForManagingHls(
+  context: ExtensionContext,
+  manageHlsSetting: ManageHLS,
+): Promise<ManageHLS> {
+  if (manageHlsSetting === 'PATH' && (!context.globalState.get('pluginInitialized') as boolean | null)) {
     const promptMessage = `How do you want the extension to manage/discover HLS and the relevant toolchain?
 
     Choose "Automatically" if you're in doubt.
@@ -388,37 +746,84 @@ async function getLatestProjectHls(
   toolchainBindir: string,
 ): Promise<[string, string]> {
   // get project GHC version, but fallback to system ghc if necessary.
-  const projectGhc = toolchainBindir
-    ? await getProjectGhcVersion(toolchainBindir, workingDir, logger).catch(async (e) => {
-        logger.error(`${e}`);
-        window.showWarningMessage(
-          `I had trouble figuring out the exact GHC version for the project. Falling back to using 'ghc${exeExt}'.`,
-        );
-        return await callAsync(`ghc${exeExt}`, ['--numeric-version'], logger, undefined, undefined, false);
-      })
-    : await callAsync(`ghc${exeExt}`, ['--numeric-version'], logger, undefined, undefined, false);
+  // For stack projects, the snapshot determines the GHC version, which doesn't need a GHC to work out.
+  const stackGhc =
+    toolchainBindir && isStackProject(workingDir)
+      ? await getStackProjectGhcVersion(toolchainBindir, workingDir, logger).catch((e) => {
+          logger.warn(`Could not work out the GHC version from stack.yaml: ${e}`);
+          return undefined;
+        })
+      : undefined;
+  const projectGhc =
+    stackGhc ??
+    (toolchainBindir
+      ? await getProjectGhcVersion(toolchainBindir, workingDir, logger).catch(async (e) => {
+          logger.error(`${e}`);
+          window.showWarningMessage(
+            `I had trouble figuring out the exact GHC version for the project. Falling back to using 'ghc${exeExt}'.`,
+          );
+          return await ghcVersion(logger, ghcup.folder);
+        })
+      : await ghcVersion(logger, ghcup.folder));
+
+  return [await latestHlsSupporting(ghcup, logger, storagePath, projectGhc), projectGhc];
+}
 
+/**
+ * Find the latest HLS version that supports a GHC version, preferring the GHC versions installed HLSes support.
+ * Offline, only installed HLSes are considered. With `quiet`, problems getting the metadata are only logged.
+ */
+async function latestHlsSupporting(
+  ghcup: GHCup,
+  logger: Logger,
+  storagePath: string,
+  projectGhc: string,
+  quiet = false,
+): Promise<string> {
   // first we get supported GHC versions from available HLS bindists (whether installed or not)
-  const metadataMap = (await getHlsMetadata(storagePath, logger)) || new Map<string, string[]>();
+  const metadataMap =
+    (await getHlsMetadata(storagePath, ghcup.config.offline, logger, quiet)) || new Map<string, string[]>();
   // then we get supported GHC versions from currently installed HLS versions
   const ghcupMap = await findAvailableHlsBinariesFromGHCup(ghcup);
   // since installed HLS versions may support a different set of GHC versions than the bindists
   // (e.g. because the user ran 'ghcup compile hls'), we need to merge both maps, preferring
   // values from already installed HLSes
   const merged = new Map<string, string[]>([...metadataMap, ...ghcupMap]); // right-biased
-  // now sort and get the latest suitable version
-  const latest = [...merged]
-    .filter(([_k, v]) => v.some((x) => x === projectGhc))
-    .sort(([k1, _v1], [k2, _v2]) => comparePVP(k1, k2))
-    .pop();
-
-  if (!latest) {
-    throw new NoMatchingHls(projectGhc);
+  // now sort and get the latest suitable version.
+  // Offline, we can't install anything, so only the installed HLSes count.
+  const latestSupporting = (hlsMap: Map<string, string[]>) =>
+    [...hlsMap]
+      .filter(([_k, v]) => v.some((x) => x === projectGhc))
+      .sort(([k1, _v1], [k2, _v2]) => comparePVP(k1, k2))
+      .pop();
+  const latest = latestSupporting(ghcup.config.offline ? ghcupMap : merged);
+
+  if (!latest && ghcup.config.offline) {
+    const installable = latestSupporting(merged);
+    const installed = [...ghcupMap.keys()];
+    throw new HlsError(
+      `Offline mode: none of the installed HLS versions (${installed.length > 0 ? installed.join(', ') : 'none'}) supports GHC ${projectGhc}. ` +
+        (installable
+          ? `Install HLS ${installable[0]} with 'ghcup install hls ${installable[0]}' while online, `
+          : 'Connect to the internet to look for a supporting HLS version, ') +
+        'or disable "haskell.offline" in your settings.',
+    );
+  } else if (!latest) {
+    throw new NoMatchingHls(projectGhc, merged);
   } else {
-    return [latest[0], projectGhc];
+    return latest[0];
   }
 }
 
+/**
+ * The version of the `ghc` on the PATH.
+ */
+function ghcVersion(logger: Logger, folder?: WorkspaceFolder): Promise<string> {
+  return Promise.resolve(
+    callAsync(`ghc${exeExt}`, ['--numeric-version'], logger, undefined, undefined, false, undefined, undefined, folder),
+  );
+}
+
 /**
  * Obtain the project ghc version from the HLS - Wrapper (which must be in PATH now).
  * Also, serves as a sanity check.
@@ -437,7 +842,7 @@ export async function getProjectGhcVersion(
 
   const args = ['--project-ghc-version'];
 
-  const newPath = addPathToProcessPath(toolchainBindir);
+  const newPath = addPathToProcessPath(toolchainBindir, workspaceFolderOf(workingDir));
   const environmentNew: IEnvVars = {
     PATH: newPath,
   };
@@ -465,8 +870,9 @@ export async function getProjectGhcVersion(
           reject(new MissingToolError('unknown'));
         }
         reject(
-          Error(
+          new CradleError(
             `haskell-language-server --project-ghc-version exited with exit code ${err.code}:\n${stdout}\n${stderr}`,
+            err,
           ),
         );
       } else {
@@ -485,15 +891,15 @@ export async function getProjectGhcVersion(
  * @returns
  */
 export function getStoragePath(context: ExtensionContext): string {
-  let storagePath: string | undefined = haskellConfig.get('releasesDownloadStoragePath');
-
-  if (!storagePath) {
-    storagePath = context.globalStorageUri.fsPath;
-  } else {
-    storagePath = resolvePathPlaceHolders(storagePath);
+  const storagePath: string | undefined = haskellConfig.get('releasesDownloadStoragePath');
+  if (storagePath) {
+    try {
+      return substituteVariables(storagePath, 'haskell.releasesDownloadStoragePath');
+    } catch (_err) {
+      // reported by `validateConfig`, the extension can still work with the default storage path
+    }
   }
-
-  return storagePath;
+  return context.globalStorageUri.fsPath;
 }
 
 /**
@@ -0,0 +1,266 @@
+import * as child_process from 'child_process';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { commands, Disposable, QuickPickItem, Uri, window, workspace, WorkspaceFolder } from 'vscode';
+import { Logger } from 'vscode-languageclient';
+import { parsePackageId } from './buildPlan';
+import { hackageBaseUrl } from './docsBrowser';
+import { HlsError, HoogleError, MissingToolError } from './errors';
+import { callAsync, executableExists, IEnvVars, substituteVariables } from './utils';
+
+/**
+ * The project a Hoogle search applies to.
+ */
+export type HoogleProject = {
+  workingDir: string;
+  folder?: WorkspaceFolder;
+  /**
+   * Environment of the project's language server, so that `hoogle` and `ghc-pkg` match the project's toolchain.
+   */
+  environment: IEnvVars;
+};
+
+/**
+ * A search result, as printed by `hoogle search --json`.
+ */
+export type HoogleResult = {
+  url: string;
+  module?: { name: string; url: string };
+  package?: { name: string; url: string };
+  item: string;
+  docs?: string;
+};
+
+type HoogleItem = QuickPickItem & { result: HoogleResult };
+
+/**
+ * How many results are shown in the quick pick.
+ */
+const resultCount = 50;
+
+/**
+ * Delay after the last key stroke before querying Hoogle, in milliseconds.
+ */
+const searchDelay = 200;
+
+/**
+ * Let the user search the Hoogle database of a project, showing results as they type,
+ * and open the documentation of the selected result.
+ *
+ * If the project has no database yet, offer to generate one.
+ *
+ * @param project Project to search in.
+ * @param storagePath Path to put in binary files and caches.
+ * @param logger Logger for feedback.
+ */
+export async function searchHoogle(project: HoogleProject, storagePath: string, logger: Logger): Promise<void> {
+  const database = hoogleDatabasePath(project, storagePath);
+  if (!fs.existsSync(database)) {
+    const decision = await window.showInformationMessage(
+      `There is no Hoogle database for ${project.workingDir} yet. Generate it from the installed documentation?`,
+      'Generate',
+    );
+    if (decision !== 'Generate') {
+      return;
+    }
+    await generateHoogleDatabase(project, storagePath, logger);
+  }
+
+  const quickPick = window.createQuickPick<HoogleItem>();
+  quickPick.title = 'Search Hoogle';
+  quickPick.placeholder = 'Name or type signature, e.g. (a -> b) -> [a] -> [b]';
+
+  let pending: NodeJS.Timeout | undefined;
+  let running: AbortController | undefined;
+  const disposables: Disposable[] = [
+    quickPick.onDidChangeValue((query) => {
+      clearTimeout(pending);
+      running?.abort();
+      if (query.trim() === '') {
+        quickPick.items = [];
+        quickPick.busy = false;
+        return;
+      }
+      quickPick.busy = true;
+      pending = setTimeout(() => {
+        const controller = new AbortController();
+        running = controller;
+        queryHoogle(project, database, query, controller.signal)
+          .then((results) => {
+            quickPick.items = results.map(toQuickPickItem);
+            quickPick.busy = false;
+          })
+          .catch((e) => {
+            if (!controller.signal.aborted) {
+              logger.warn(`Hoogle search for '${query}' failed: ${e}`);
+              quickPick.items = [];
+              quickPick.busy = false;
+            }
+          });
+      }, searchDelay);
+    }),
+    quickPick.onDidAccept(() => {
+      const [selected] = quickPick.selectedItems;
+      quickPick.hide();
+      if (selected) {
+        void openHoogleResult(selected.result);
+      }
+    }),
+    quickPick.onDidHide(() => {
+      clearTimeout(pending);
+      running?.abort();
+      disposables.forEach((d) => {
+        d.dispose();
+      });
+      quickPick.dispose();
+    }),
+  ];
+  quickPick.show();
+}
+
+/**
+ * Generate the Hoogle database of a project from the documentation of the installed packages
+ * and the haddocks built for the project itself.
+ *
+ * @param project Project to generate the database for.
+ * @param storagePath Path to put in binary files and caches.
+ * @param logger Logger for feedback.
+ */
+export async function generateHoogleDatabase(
+  project: HoogleProject,
+  storagePath: string,
+  logger: Logger,
+): Promise<void> {
+  const database = hoogleDatabasePath(project, storagePath);
+  if (!executableExists('hoogle', project.environment, project.folder)) {
+    throw new MissingToolError('hoogle');
+  }
+  // hoogle indexes the packages ghc-pkg knows about, and the `--hoogle` output of haddock in the build directories
+  const buildDirs = ['dist-newstyle', '.stack-work']
+    .map((dir) => path.join(project.workingDir, dir))
+    .filter((dir) => fs.existsSync(dir));
+  await fs.promises.mkdir(path.dirname(database), { recursive: true });
+  await callAsync(
+    'hoogle',
+    ['generate', `--database=${database}`, '--local', ...buildDirs.map((dir) => `--local=${dir}`)],
+    logger,
+    project.workingDir,
+    'Generating the Hoogle database. This might take a while...',
+    true,
+    project.environment,
+    (err, stdout, stderr, resolve, reject) => {
+      if (err) {
+        reject(new HlsError(`Could not generate the Hoogle database: ${stderr.trim() || err.message}`));
+      } else {
+        resolve(stdout.trim());
+      }
+    },
+  );
+  logger.info(`Generated Hoogle database ${database}`);
+}
+
+/**
+ * Where the Hoogle database of a project lives: either the database configured
+ * in `haskell.hoogle.database`, or one in the storage path of the extension.
+ */
+function hoogleDatabasePath(project: HoogleProject, storagePath: string): string {
+  const configured = workspace.getConfiguration('haskell', project.folder).get('hoogle.database') as string;
+  if (configured) {
+    return substituteVariables(configured, 'haskell.hoogle.database', project.folder);
+  }
+  const name = crypto.createHash('sha256').update(project.workingDir).digest('hex');
+  return path.join(storagePath, 'hoogle', `${name}.hoo`);
+}
+
+function queryHoogle(
+  project: HoogleProject,
+  database: string,
+  query: string,
+  signal: AbortSignal,
+): Promise<HoogleResult[]> {
+  return new Promise<[string, Error | null]>((resolve) => {
+    child_process.execFile(
+      'hoogle',
+      ['search', '--json', `--count=${resultCount}`, `--database=${database}`, '--', query],
+      { cwd: project.workingDir, env: { ...process.env, ...project.environment }, encoding: 'utf-8', signal },
+      (err, stdout) => resolve([stdout, err]),
+    );
+    // parse outside of the callback, so that unexpected output rejects the promise
+  }).then(([stdout, err]) => parseHoogleResults(stdout, err));
+}
+
+/**
+ * Parse the output of `hoogle search --json`.
+ *
+ * @param stdout What hoogle printed.
+ * @param err How hoogle failed, if it did. It exits with an error if nothing was found, but still prints valid JSON.
+ * @returns The search results.
+ * @throws HoogleError if hoogle failed, or the output isn't a list of results, e.g. of an old hoogle version.
+ */
+export function parseHoogleResults(stdout: string, err: Error | null): HoogleResult[] {
+  const output = stdout.trim();
+  if (!output.startsWith('[')) {
+    if (err) {
+      throw new HoogleError(`hoogle search failed: ${err.message}`, err);
+    }
+    return [];
+  }
+  try {
+    return JSON.parse(output) as HoogleResult[];
+  } catch (e) {
+    throw new HoogleError(`Unexpected output of hoogle search: ${output.substring(0, 200)}`, e);
+  }
+}
+
+function toQuickPickItem(result: HoogleResult): HoogleItem {
+  return {
+    label: stripHtml(result.item),
+    description: [result.package?.name, result.module?.name].filter((s) => s).join(' '),
+    detail: result.docs ? stripHtml(result.docs).split('\n')[0] : undefined,
+    // the results are already filtered by Hoogle, which also matches on types
+    alwaysShow: true,
+    result,
+  };
+}
+
+/**
+ * Open the documentation of a search result, either on Hackage or in the documentation webview,
+ * depending on `haskell.openDocumentationInHackage`.
+ */
+async function openHoogleResult(result: HoogleResult): Promise<void> {
+  const anchor = result.url.includes('#') ? result.url.substring(result.url.indexOf('#')) : '';
+  // pin the version of the locally installed documentation, if the path tells us
+  const packageId = result.url.startsWith('file:')
+    ? Uri.parse(result.url)
+        .path.split('/')
+        .reverse()
+        .map(parsePackageId)
+        .find((id) => id?.name === result.package?.name)
+    : undefined;
+  const hackageUri = result.url.startsWith('file:')
+    ? result.package && result.module
+      ? `${hackageBaseUrl()}/package/${packageId ? `${packageId.name}-${packageId.version}` : result.package.name}/docs/${result.module.name.replace(/\./g, '-')}.html${anchor}`
+      : undefined
+    : result.url;
+  const openDocsInHackage = workspace.getConfiguration('haskell').get('openDocumentationInHackage') as boolean;
+  if (result.url.startsWith('file:') && !(openDocsInHackage && hackageUri)) {
+    await commands.executeCommand('haskell.showDocumentation', {
+      title: stripHtml(result.item),
+      localPath: result.url,
+      hackageUri: hackageUri ?? result.url,
+    });
+  } else if (hackageUri) {
+    await commands.executeCommand('haskell.openDocumentationOnHackage', { hackageUri, inWebView: false });
+  }
+}
+
+function stripHtml(html: string): string {
+  return html
+    .replace(/<[^>]*>/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+}
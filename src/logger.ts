@@ -1,6 +1,7 @@
 import { OutputChannel } from 'vscode';
 import { Logger } from 'vscode-languageclient';
 import * as fs from 'fs';
+import { Redactor } from './redaction';
 
 enum LogLevel {
   Off,
@@ -9,18 +10,88 @@ enum LogLevel {
   Info,
   Debug,
 }
+
+/**
+ * Parts of the extension whose log level can be configured separately, see `haskell.trace.components`.
+ */
+export type LogComponent = 'toolchain' | 'docs' | 'lsp-middleware';
+
+/**
+ * When to start a new log file.
+ */
+export type LogRotation = {
+  /**
+   * Size of the log file in bytes, after which it is rotated. `0` disables rotation.
+   */
+  maxSize: number;
+  /**
+   * How many rotated log files are kept, as `<logFile>.1` (the most recent) to `<logFile>.<maxFiles>`.
+   */
+  maxFiles: number;
+};
+
+export type LoggerOptions = {
+  rotation?: LogRotation;
+  /**
+   * Log levels of components that differ from the level of the logger.
+   */
+  componentLevels?: Partial<Record<LogComponent, string>>;
+  /**
+   * Applied to every line before it is written.
+   */
+  redactor?: Redactor;
+};
+
+/**
+ * How many of the most recent log lines are kept in memory, e.g. for crash reports.
+ */
+const recentLinesLimit = 500;
+
+/**
+ * How long lines are buffered before they are written to the log file, in milliseconds.
+ */
+const flushDelay = 200;
+
 export class ExtensionLogger implements Logger {
   public readonly name: string;
   public readonly level: LogLevel;
   public readonly channel: OutputChannel;
   public readonly logFile: string | undefined;
+  private readonly recentLines: string[];
+  private readonly writer: LogFileWriter | undefined;
 
-  constructor(name: string, level: string, channel: OutputChannel, logFile: string | undefined) {
+  constructor(
+    name: string,
+    level: string,
+    channel: OutputChannel,
+    logFile: string | undefined,
+    readonly options: LoggerOptions = {},
+    recentLines: string[] = [],
+  ) {
     this.name = name;
     this.level = this.getLogLevel(level);
     this.channel = channel;
     this.logFile = logFile;
+    this.recentLines = recentLines;
+    this.writer = logFile ? logFileWriter(logFile, channel, options.rotation) : undefined;
+  }
+
+  /**
+   * A logger for a component of the extension, which writes to the same places as this logger,
+   * but with the log level configured for the component.
+   */
+  public child(component: LogComponent): ExtensionLogger {
+    const level = this.options.componentLevels?.[component] ?? LogLevel[this.level].toLowerCase();
+    return new ExtensionLogger(
+      `${this.name}/${component}`,
+      level,
+      this.channel,
+      this.logFile,
+      this.options,
+      this.recentLines,
+    );
   }
+
   public warn(message: string): void {
     this.logLevel(LogLevel.Warn, message);
   }
@@ -37,12 +108,23 @@ export class ExtensionLogger implements Logger {
     this.logLevel(LogLevel.Debug, message);
   }
 
+  /**
+   * The most recent lines written by this logger, oldest first.
+   * @param lines Maximal number of lines to return.
+   */
+  public tail(lines: number): string[] {
+    return lines > 0 ? this.recentLines.slice(-lines) : [];
+  }
+
   private write(msg: string) {
-    const timedMsg = `${new Date().toISOString().replace('T', ' ').replace('Z', '0000')} ${msg}`;
+    const redacted = this.options.redactor ? this.options.redactor.redact(msg) : msg;
+    const timedMsg = `${new Date().toISOString().replace('T', ' ').replace('Z', '0000')} ${redacted}`;
     this.channel.appendLine(timedMsg);
-    if (this.logFile) {
-      fs.appendFileSync(this.logFile, timedMsg + '\n');
+    this.recentLines.push(timedMsg);
+    if (this.recentLines.length > recentLinesLimit) {
+      this.recentLines.shift();
     }
+    this.writer?.write(timedMsg + '\n');
   }
 
   private logLevel(level: LogLevel, msg: string) {
@@ -57,6 +139,8 @@ export class ExtensionLogger implements Logger {
         return LogLevel.Off;
       case 'error':
         return LogLevel.Error;
+      case 'warn':
+        return LogLevel.Warn;
       case 'debug':
         return LogLevel.Debug;
       default:
@@ -64,3 +148,137 @@ export class ExtensionLogger implements Logger {
     }
   }
 }
+
+/**
+ * Writers by log file. Several loggers may write to the same file, e.g. the loggers of all workspace folders.
+ */
+const writers: Map<string, LogFileWriter> = new Map();
+
+function logFileWriter(file: string, channel?: OutputChannel, rotation?: LogRotation): LogFileWriter {
+  let writer = writers.get(file);
+  if (!writer) {
+    writer = new LogFileWriter(file);
+    writers.set(file, writer);
+  }
+  if (channel) {
+    // the most recent configuration wins
+    writer.rotation = rotation;
+    writer.channel = channel;
+  }
+  return writer;
+}
+
+/**
+ * Keep a log file from being rotated while another process writes to it, e.g. a server started with `-l`.
+ * Moving the file away would leave the process writing to the rotated file.
+ *
+ * @param file The log file.
+ * @returns A function to call once the process stopped writing to the file.
+ */
+export function holdLogFile(file: string): () => void {
+  const writer = logFileWriter(file);
+  writer.holders++;
+  let released = false;
+  return () => {
+    if (!released) {
+      released = true;
+      writer.holders--;
+    }
+  };
+}
+
+/**
+ * Write all buffered log lines to their files, e.g. before the extension is deactivated.
+ */
+export async function flushLogs(): Promise<void> {
+  await Promise.all([...writers.values()].map((writer) => writer.flush()));
+}
+
+/**
+ * Appends lines to a log file in batches, without blocking the extension, and rotates the file when it gets too big.
+ */
+class LogFileWriter {
+  rotation?: LogRotation;
+  /**
+   * Where failures are reported. The lines are in the channel anyway, so it is enough to tell once.
+   */
+  channel?: OutputChannel;
+  /**
+   * How many other processes write to the file, see {@link holdLogFile}.
+   */
+  holders = 0;
+  private reported: Set<'rotate' | 'write'> = new Set();
+  private buffer: string[] = [];
+  private timer?: NodeJS.Timeout;
+  /**
+   * Flushes happen one after the other, so that lines are written in order.
+   */
+  private flushing: Promise<void> = Promise.resolve();
+
+  constructor(readonly file: string) {}
+
+  write(line: string): void {
+    this.buffer.push(line);
+    if (!this.timer) {
+      this.timer = setTimeout(() => void this.flush(), flushDelay);
+    }
+  }
+
+  flush(): Promise<void> {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    const chunk = this.buffer.join('');
+    this.buffer = [];
+    if (chunk) {
+      this.flushing = this.flushing
+        .then(() => this.append(chunk))
+        .catch((err) => this.reportOnce('write', `Could not write to the log file ${this.file}: ${err}`));
+    }
+    return this.flushing;
+  }
+
+  private async append(chunk: string): Promise<void> {
+    const rotation = this.rotation;
+    if (rotation && rotation.maxSize > 0 && this.holders === 0) {
+      // the server may write to the same file, so ask the file system instead of counting
+      const size = await fs.promises.stat(this.file).then(
+        (stats) => stats.size,
+        () => 0,
+      );
+      if (size > 0 && size + Buffer.byteLength(chunk) > rotation.maxSize) {
+        // e.g. EBUSY on Windows if another process has the file open, keep appending rather than losing lines
+        await this.rotate(rotation.maxFiles).catch((err) =>
+          this.reportOnce('rotate', `Could not rotate the log file ${this.file}, appending to it: ${err}`),
+        );
+      }
+    }
+    await fs.promises.appendFile(this.file, chunk);
+  }
+
+  private reportOnce(failure: 'rotate' | 'write', message: string): void {
+    if (!this.reported.has(failure)) {
+      this.reported.add(failure);
+      this.channel?.appendLine(message);
+    }
+  }
+
+  /**
+   * Shift `<file>.1` to `<file>.2` and so on, dropping the oldest, and move the current file to `<file>.1`.
+   */
+  private async rotate(maxFiles: number): Promise<void> {
+    const ignoreMissing = (err: NodeJS.ErrnoException) => {
+      if (err.code !== 'ENOENT') {
+        throw err;
+      }
+    };
+    await fs.promises.rm(`${this.file}.${maxFiles}`, { force: true });
+    for (let i = maxFiles - 1; i >= 1; i--) {
+      await fs.promises.rename(`${this.file}.${i}`, `${this.file}.${i + 1}`).catch(ignoreMissing);
+    }
+    if (maxFiles > 0) {
+      await fs.promises.rename(this.file, `${this.file}.1`).catch(ignoreMissing);
+    } else {
+      await fs.promises.rm(this.file, { force: true });
+    }
+  }
+}
@@ -6,6 +6,7 @@ import { match } from 'ts-pattern';
 import { promisify } from 'util';
 import { window, workspace } from 'vscode';
 import { Logger } from 'vscode-languageclient';
+import { describeError, MetadataFetchError, UnsupportedPlatformError } from './errors';
 import { httpsGetSilently } from './utils';
 
 /**
@@ -55,35 +56,69 @@ export type Arch = 'A_ARM' | 'A_ARM64' | 'A_32' | 'A_64';
  * Fetches HLS metadata information.
  *
  * @param storagePath Path to put in binary files and caches.
+ * @param offline Only use the cached metadata, see `GHCupConfig.offline`.
  * @param logger Logger for feedback
+ * @param quiet Only log problems instead of showing them to the user, e.g. when checking in the background.
  * @returns Map of supported HLS versions or null if metadata could not be fetched.
  */
-export async function getHlsMetadata(storagePath: string, logger: Logger): Promise<Map<string, string[]> | null> {
-  const metadata = await getReleaseMetadata(storagePath, logger).catch(() => null);
+export async function getHlsMetadata(
+  storagePath: string,
+  offline: boolean,
+  logger: Logger,
+  quiet = false,
+): Promise<Map<string, string[]> | null> {
+  const metadata = await getReleaseMetadata(storagePath, offline, logger, quiet).catch((e) => {
+    logger.error(describeError(e));
+    return null;
+  });
   if (!metadata) {
-    window.showErrorMessage('Could not get release metadata');
+    if (offline) {
+      logger.warn('Offline mode: no cached release metadata');
+    } else if (quiet) {
+      logger.warn('Could not get release metadata');
+    } else {
+      window.showErrorMessage('Could not get release metadata');
+    }
     return null;
   }
-  const plat: Platform | null = match(process.platform)
+  const plat = hostPlatform();
+  if (plat === null) {
+    throw new UnsupportedPlatformError(`Unknown platform ${process.platform}`);
+  }
+  const arch = hostArch();
+  if (arch === null) {
+    throw new UnsupportedPlatformError(`Unknown architecture ${process.arch}`);
+  }
+
+  return findSupportedHlsPerGhc(plat, arch, metadata, logger);
+}
+
+/**
+ * The platform of the host, as named in the release metadata.
+ *
+ * @returns The platform, or null if there are no HLS releases for it.
+ */
+export function hostPlatform(): Platform | null {
+  return match(process.platform)
     .with('darwin', () => 'Darwin' as Platform)
     .with('linux', () => 'Linux_UnknownLinux' as Platform)
     .with('win32', () => 'Windows' as Platform)
     .with('freebsd', () => 'FreeBSD' as Platform)
     .otherwise(() => null);
-  if (plat === null) {
-    throw new Error(`Unknown platform ${process.platform}`);
-  }
-  const arch: Arch | null = match(process.arch)
+}
+
+/**
+ * The architecture of the host, as named in the release metadata.
+ *
+ * @returns The architecture, or null if there are no HLS releases for it.
+ */
+export function hostArch(): Arch | null {
+  return match(process.arch)
     .with('arm', () => 'A_ARM' as Arch)
     .with('arm64', () => 'A_ARM64' as Arch)
     .with('ia32', () => 'A_32' as Arch)
     .with('x64', () => 'A_64' as Arch)
     .otherwise(() => null);
-  if (arch === null) {
-    throw new Error(`Unknown architecture ${process.arch}`);
-  }
-
-  return findSupportedHlsPerGhc(plat, arch, metadata, logger);
 }
 /**
  * Find all supported GHC versions per HLS version supported on the given
@@ -119,12 +154,20 @@ export function findSupportedHlsPerGhc(
 
 /**
  * Download GHCUP metadata.
+ * In offline mode, only the cache of the last successful download is used.
  *
  * @param storagePath Path to put in binary files and caches.
+ * @param offline Only use the cache, see `GHCupConfig.offline`.
  * @param logger Logger for feedback.
+ * @param quiet Only log that the cache was used instead of warning the user.
  * @returns Metadata of releases, or null if the cache can not be found.
  */
-async function getReleaseMetadata(storagePath: string, logger: Logger): Promise<ReleaseMetadata | null> {
+async function getReleaseMetadata(
+  storagePath: string,
+  offline: boolean,
+  logger: Logger,
+  quiet: boolean,
+): Promise<ReleaseMetadata | null> {
   const releasesUrl = workspace.getConfiguration('haskell').releasesURL
     ? new URL(workspace.getConfiguration('haskell').releasesURL as string)
     : undefined;
@@ -174,6 +217,11 @@ async function getReleaseMetadata(storagePath: string, logger: Logger): Promise<
     }
   }
 
+  if (offline) {
+    logger.info('Offline mode: not downloading release data');
+    return readCachedReleaseData();
+  }
+
   try {
     const releaseInfo = await httpsGetSilently(opts);
     const releaseInfoParsed = JSON.parse(releaseInfo);
@@ -186,15 +234,20 @@ async function getReleaseMetadata(storagePath: string, logger: Logger): Promise<
     try {
       const cachedInfoParsed = await readCachedReleaseData();
 
-      window.showWarningMessage(
+      const message =
         "Couldn't get the latest haskell-language-server releases from GitHub, used local cache instead: " +
-          githubError.message,
-      );
+        githubError.message;
+      if (quiet) {
+        logger.warn(message);
+      } else {
+        window.showWarningMessage(message);
+      }
       return cachedInfoParsed;
     } catch (fileError) {
-      throw new Error("Couldn't get the latest haskell-language-server releases from GitHub: " + githubError.message, {
-        cause: fileError,
-      });
+      throw new MetadataFetchError(
+        "Couldn't get the latest haskell-language-server releases from GitHub: " + githubError.message,
+        fileError,
+      );
     }
   }
 }
@@ -0,0 +1,81 @@
+import * as os from 'os';
+import { IEnvVars } from './utils';
+
+const redacted = '<redacted>';
+
+/**
+ * Secrets that are redacted regardless of the configuration.
+ */
+const builtinPatterns: [RegExp, string][] = [
+  // NAME=value or NAME: value, for names that look like they hold secrets
+  [/\b(\w*(?:TOKEN|SECRET|PASSWORD|PASSWD|API_?KEY|CREDENTIALS?)\w*["']?\s*[=:]\s*["']?)[^\s"',]+/gi, `$1${redacted}`],
+  // credentials in URLs
+  [/(\/\/[^/\s:@]+:)[^/\s@]+@/g, `$1${redacted}@`],
+  [/(Bearer\s+)\S+/gi, `$1${redacted}`],
+  // GitHub tokens
+  [/\bgh[pousr]_[A-Za-z0-9]{20,}\b/g, redacted],
+];
+
+/**
+ * Environment variables whose values are secrets, judging by their name.
+ */
+const secretVariable = /TOKEN|SECRET|PASSWORD|PASSWD|KEY|CREDENTIAL|AUTH/i;
+
+/**
+ * Removes secrets and the home directory, which usually contains the user name, from text that is shown to others,
+ * e.g. logs and diagnostics reports.
+ */
+export class Redactor {
+  private readonly patterns: [RegExp, string][];
+  private readonly secrets: string[];
+  private readonly homes: string[];
+
+  /**
+   * @param patterns Regular expressions matching secrets, in addition to the built-in ones.
+   * @param environment Environment variables. The values of those that look like secrets are redacted wherever they appear.
+   */
+  constructor(patterns: RegExp[] = [], environment: IEnvVars = {}) {
+    this.patterns = [...builtinPatterns, ...patterns.map((p): [RegExp, string] => [p, redacted])];
+    this.secrets = Object.entries(environment)
+      .filter(([name, value]) => secretVariable.test(name) && value.length >= 4)
+      .map(([_name, value]) => value)
+      // longest first, in case one secret contains another
+      .sort((s1, s2) => s2.length - s1.length);
+    const home = os.homedir();
+    // JSON escapes the backslashes of Windows paths
+    this.homes = home.length > 1 ? [...new Set([home, home.replace(/\\/g, '\\\\'), home.replace(/\\/g, '/')])] : [];
+  }
+
+  redact(text: string): string {
+    let result = text;
+    for (const secret of this.secrets) {
+      result = result.split(secret).join(redacted);
+    }
+    for (const [pattern, replacement] of this.patterns) {
+      result = result.replace(pattern, replacement);
+    }
+    for (const home of this.homes) {
+      result = result.split(home).join('~');
+    }
+    return result;
+  }
+}
+
+/**
+ * Compile the regular expressions of `haskell.trace.redact`.
+ *
+ * @param patterns Configured regular expressions.
+ * @returns The regular expressions, and the ones that are invalid.
+ */
+export function parseRedactPatterns(patterns: unknown): { valid: RegExp[]; invalid: string[] } {
+  const valid: RegExp[] = [];
+  const invalid: string[] = [];
+  for (const pattern of Array.isArray(patterns) ? patterns : []) {
+    try {
+      valid.push(new RegExp(String(pattern), 'g'));
+    } catch (_err) {
+      invalid.push(String(pattern));
+    }
+  }
+  return { valid, invalid };
+}
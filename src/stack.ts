@@ -0,0 +1,114 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Logger } from 'vscode-languageclient';
+import { addPathToProcessPath, callAsync, workspaceFolderOf } from './utils';
+import { CradleError } from './errors';
+
+/**
+ * Who installs the GHC of a stack project when `manageHLS` is set to `GHCup`.
+ *
+ * - `ghcup`: ghcup installs it next to HLS, stack may install its own copy.
+ * - `stackHook`: stack installs it, but delegates to ghcup via stack's `ghc-install` hook.
+ * - `stack`: stack installs it on its own, ghcup doesn't touch it.
+ */
+export type StackGhcManagement = 'ghcup' | 'stackHook' | 'stack';
+
+/**
+ * The ghc-install hook of stack, asking ghcup to install the GHC stack needs.
+ * Modelled after the hook the ghcup installer sets up.
+ */
+const ghcupHook = `#!/bin/sh
+# Installed by the Haskell extension for VS Code: let ghcup install the GHC versions stack needs.
+set -eu
+
+case $HOOK_GHC_TYPE in
+  bindist)
+    ghcup --no-verbose install ghc "$HOOK_GHC_VERSION" >&2 || exit 3
+    printf "%s" "$(ghcup --offline --no-verbose whereis ghc "$HOOK_GHC_VERSION" 2>/dev/null)" || exit 3
+    ;;
+  *)
+    >&2 echo "Hook doesn't support installation type $HOOK_GHC_TYPE"
+    exit 3
+    ;;
+esac
+`;
+
+/**
+ * A project is built with stack if it has a `stack.yaml`, but no `cabal.project`.
+ * This mirrors the implicit cradle of HLS.
+ *
+ * @param workingDir Root of the project.
+ */
+export function isStackProject(workingDir: string): boolean {
+  return fs.existsSync(path.join(workingDir, 'stack.yaml')) && !fs.existsSync(path.join(workingDir, 'cabal.project'));
+}
+
+/**
+ * Work out the GHC version of a stack project from its `stack.yaml`.
+ *
+ * An explicit `compiler` or a `ghc-x.y.z` snapshot determines the version directly,
+ * for any other snapshot we ask stack which compiler it wants.
+ *
+ * @param toolchainBindir Path to the toolchain bin directory providing `stack`.
+ * @param workingDir Root of the project.
+ * @param logger Logger for feedback.
+ * @returns The GHC version, or fail with an `Error`.
+ */
+export async function getStackProjectGhcVersion(
+  toolchainBindir: string,
+  workingDir: string,
+  logger: Logger,
+): Promise<string> {
+  const stackYaml = fs.readFileSync(path.join(workingDir, 'stack.yaml'), { encoding: 'utf-8' });
+  const compiler = /^compiler:\s*['"]?([^\s'"#]+)/m.exec(stackYaml)?.[1];
+  const snapshot = /^(?:resolver|snapshot):\s*['"]?([^\s'"#]+)/m.exec(stackYaml)?.[1];
+  logger.info(`stack.yaml: snapshot ${snapshot ?? '<none>'}, compiler ${compiler ?? '<none>'}`);
+
+  const fromYaml = [compiler, snapshot]
+    .map((c) => (c ? /^ghc-(\d+(?:\.\d+)*)$/.exec(c)?.[1] : undefined))
+    .find((v) => v);
+  if (fromYaml) {
+    logger.info(`The GHC version of the stack project: ${fromYaml}`);
+    return fromYaml;
+  }
+
+  const wanted = await callAsync(
+    'stack',
+    ['--no-install-ghc', 'query', 'compiler', 'wanted'],
+    logger,
+    workingDir,
+    'Working out the GHC version of the stack snapshot. This might take a while...',
+    false,
+    { PATH: addPathToProcessPath(toolchainBindir, workspaceFolderOf(workingDir)) },
+  );
+  const version = /ghc-(\d+(?:\.\d+)*)/.exec(wanted)?.[1];
+  if (!version) {
+    throw new CradleError(`Unexpected output of 'stack query compiler wanted': ${wanted}`);
+  }
+  logger.info(`The GHC version of the stack snapshot ${snapshot ?? ''}: ${version}`);
+  return version;
+}
+
+/**
+ * Make stack install GHC via ghcup, by installing stack's `ghc-install` hook, unless there already is one.
+ *
+ * @param logger Logger for feedback.
+ * @returns Whether the hook is in place.
+ */
+export async function installStackGhcupHook(logger: Logger): Promise<boolean> {
+  if (process.platform === 'win32') {
+    logger.warn("stack's ghc-install hook is not supported on Windows");
+    return false;
+  }
+  const stackRoot = process.env.STACK_ROOT ?? path.join(os.homedir(), '.stack');
+  const hook = path.join(stackRoot, 'hooks', 'ghc-install.sh');
+  if (fs.existsSync(hook)) {
+    logger.info(`stack's ghc-install hook already exists at ${hook}`);
+    return true;
+  }
+  logger.info(`Installing stack's ghc-install hook at ${hook}`);
+  await fs.promises.mkdir(path.dirname(hook), { recursive: true });
+  await fs.promises.writeFile(hook, ghcupHook, { encoding: 'utf-8', mode: 0o755 });
+  return true;
+}
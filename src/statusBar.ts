@@ -1,27 +1,170 @@
 import * as vscode from 'vscode';
 import * as constants from './commands/constants';
+import { HlsExecutable } from './hlsBinaries';
+
+/**
+ * Built-in command that shows the Workspace Trust editor.
+ */
+export const manageTrustCommand = 'workbench.trust.manage';
+
+/**
+ * Life cycle of the language server of a single workspace folder.
+ *
+ * - `resolving`: looking for (or installing) HLS and the toolchain.
+ * - `starting`, `running`, `stopped`: mirror the state of the `LanguageClient`.
+ * - `crashed`: the connection to the server was closed unexpectedly.
+ * - `error`: the server could not be launched at all.
+ * - `cancelled`: the user cancelled setting up the toolchain, until they resume it.
+ * - `untrusted`: the server is not started, because the workspace is in Restricted Mode.
+ */
+export type ServerStatus =
+  | 'resolving'
+  | 'starting'
+  | 'running'
+  | 'stopped'
+  | 'crashed'
+  | 'error'
+  | 'cancelled'
+  | 'untrusted';
+
+/**
+ * Everything the status bar knows about the language server of a workspace folder.
+ */
+export type FolderStatus = {
+  status: ServerStatus;
+  /**
+   * Name of the workspace folder, or of the file for standalone files.
+   */
+  name?: string;
+  /**
+   * Why the server is not running, if we know it.
+   */
+  message?: string;
+  hlsVersion?: string;
+  ghcVersion?: string;
+  /**
+   * How the HLS executable was found.
+   */
+  tag?: HlsExecutable['tag'];
+};
 
 export class HaskellStatusBar {
   readonly item: vscode.StatusBarItem;
+  private readonly folders: Map<string, FolderStatus> = new Map();
+  private activeKey?: string;
+  private readonly changed = new vscode.EventEmitter<void>();
+  /**
+   * Fires whenever the state of any server changes.
+   */
+  readonly onDidChange = this.changed.event;
+
   constructor(readonly version?: string) {
     // Set up the status bar item.
     this.item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left);
   }
 
+  /**
+   * Record a change of the server state of a workspace folder and re-render.
+   *
+   * @param clientKey Key of the language client, see `clients` in `extension.ts`.
+   * @param update Fields to update. Fields that are omitted keep their previous value.
+   */
+  update(clientKey: string, update: Partial<FolderStatus> & Pick<FolderStatus, 'status'>): void {
+    this.folders.set(clientKey, { ...this.folders.get(clientKey), ...update });
+    this.refresh();
+  }
+
+  /**
+   * Look up the last known server state of a workspace folder.
+   */
+  statusOf(clientKey: string): ServerStatus | undefined {
+    return this.folders.get(clientKey)?.status;
+  }
+
+  /**
+   * Forget about a workspace folder, e.g. because it was removed from the workspace.
+   */
+  remove(clientKey: string): void {
+    this.folders.delete(clientKey);
+    this.refresh();
+  }
+
+  /**
+   * Focus the status bar on the language client of the active editor.
+   *
+   * @param clientKey Key of the language client of the active editor. If given,
+   *   the server links in the tooltip only apply to this client.
+   */
+  setActiveClient(clientKey?: string): void {
+    this.activeKey = clientKey;
+    this.refresh();
+  }
+
   refresh(): void {
     const version = this.version ?? '<unknown>';
-    this.item.text = `Haskell`;
+    const active = this.activeKey ? this.folders.get(this.activeKey) : undefined;
+    const status = active?.status ?? this.overallStatus();
+
+    this.item.text = `${statusIcon(status)}Haskell`;
+    this.item.backgroundColor =
+      status === 'error' || status === 'crashed' ? new vscode.ThemeColor('statusBarItem.errorBackground') : undefined;
 
-    this.item.command = constants.OpenLogsCommandName;
+    // a standalone file that isn't Haskell has no server, the links then apply to all servers
+    const activeKey = active ? this.activeKey : undefined;
+    const target = activeKey ?? 'all';
+    this.item.command =
+      status === 'cancelled'
+        ? {
+            title: 'Resume Setup',
+            command: constants.ResumeSetupCommandName,
+            arguments: activeKey ? [activeKey] : [],
+          }
+        : status === 'untrusted'
+          ? { title: 'Manage Workspace Trust', command: manageTrustCommand }
+          : {
+              title: 'Open Logs',
+              command: constants.OpenLogsCommandName,
+              arguments: [target],
+            };
     this.item.tooltip = new vscode.MarkdownString('', true);
     this.item.tooltip.isTrusted = true;
     this.item.tooltip.appendMarkdown(
-      `[Extension Info](command:${constants.ShowExtensionVersions} "Show Extension Version"): Version ${version}\n\n` +
+      `[Extension Info](command:${constants.ShowExtensionVersions} "Show Extension Version"): Version ${version}\n\n`,
+    );
+    if (active) {
+      this.item.tooltip.appendMarkdown(
         `---\n\n` +
-        `[$(terminal) Open Logs](command:${constants.OpenLogsCommandName} "Open the logs of the Server and Extension")\n\n` +
-        `[$(debug-restart) Restart Server](command:${constants.RestartServerCommandName} "Restart Haskell Language Server")\n\n` +
+          `**${active.name ?? 'Language Server'}**: ${statusIcon(active.status)}${active.status}\n\n` +
+          (active.message ? `${active.message}\n\n` : '') +
+          `HLS: ${active.hlsVersion ?? '<unknown>'}\n\n` +
+          `GHC: ${active.ghcVersion ?? '<unknown>'}\n\n` +
+          `Found via: ${active.tag ?? '<unknown>'}\n\n`,
+      );
+    }
+    if (active?.status === 'cancelled') {
+      this.item.tooltip.appendMarkdown(
+        `[$(debug-start) Resume Setup](${commandUri(constants.ResumeSetupCommandName, activeKey)} "Set up the toolchain and start the server")\n\n`,
+      );
+    } else if (!active && [...this.folders.values()].some((f) => f.status === 'cancelled')) {
+      this.item.tooltip.appendMarkdown(
+        `---\n\n[$(debug-start) Resume Setup](command:${constants.ResumeSetupCommandName} "Set up the toolchains that were cancelled")\n\n`,
+      );
+    }
+    if (status === 'untrusted') {
+      this.item.tooltip.appendMarkdown(
+        `[$(shield) Manage Workspace Trust](command:${manageTrustCommand} "Trust the workspace to start the language server")\n\n`,
+      );
+    }
+    this.item.tooltip.appendMarkdown(
+      `---\n\n` +
+        `[$(terminal) Open Logs](${commandUri(constants.OpenLogsCommandName, target)} "Open the logs of the Server and Extension")\n\n` +
+        `[$(debug-restart) Restart Server](${commandUri(constants.RestartServerCommandName, target)} "Restart Haskell Language Server")\n\n` +
+        (activeKey
+          ? `[$(debug-restart) Restart All Servers](${commandUri(constants.RestartServerCommandName, 'all')} "Restart all Haskell Language Servers")\n\n`
+          : '') +
         `[$(refresh) Restart Extension](command:${constants.RestartExtensionCommandName} "Restart vscode-haskell Extension")\n\n`,
     );
+    this.changed.fire();
   }
 
   show() {
@@ -34,5 +177,51 @@ export class HaskellStatusBar {
 
   dispose() {
     this.item.dispose();
+    this.changed.dispose();
+  }
+
+  /**
+   * Summarise the state of all servers, if the active editor doesn't belong to any of them.
+   * Problems take precedence over progress, progress over everything else.
+   */
+  private overallStatus(): ServerStatus | undefined {
+    const states = [...this.folders.values()].map((f) => f.status);
+    const precedence: ServerStatus[] = [
+      'error',
+      'crashed',
+      'resolving',
+      'starting',
+      'cancelled',
+      'untrusted',
+      'running',
+      'stopped',
+    ];
+    return precedence.find((s) => states.includes(s));
   }
 }
+
+function statusIcon(status?: ServerStatus): string {
+  switch (status) {
+    case 'resolving':
+    case 'starting':
+      return '$(sync~spin) ';
+    case 'stopped':
+      return '$(debug-stop) ';
+    case 'cancelled':
+      return '$(debug-pause) ';
+    case 'untrusted':
+      return '$(shield) ';
+    case 'crashed':
+    case 'error':
+      return '$(error) ';
+    default:
+      return '';
+  }
+}
+
+/**
+ * Create a command uri for use in markdown links, passing the given arguments to the command.
+ */
+function commandUri(command: string, ...args: unknown[]): string {
+  return `command:${command}?${encodeURIComponent(JSON.stringify(args))}`;
+}
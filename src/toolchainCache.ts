@@ -0,0 +1,183 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Logger } from 'vscode-languageclient';
+import { GHCup } from './ghcup';
+import { HlsViaGhcup } from './hlsBinaries';
+import { toolchainLockFileName } from './toolchainLock';
+import { directoryExists, executableExists } from './utils';
+
+/**
+ * Files that determine which toolchain a project needs.
+ * If any of them changes, the cached toolchain of the project is invalidated.
+ */
+const buildFiles = [
+  'cabal.project',
+  'cabal.project.local',
+  'cabal.project.freeze',
+  'stack.yaml',
+  'stack.yaml.lock',
+  'package.yaml',
+  'hie.yaml',
+  toolchainLockFileName,
+];
+
+/**
+ * Directories that never contain the build files of a project, but may be huge.
+ */
+const ignoredDirectories = ['dist-newstyle', '.stack-work', 'node_modules'];
+
+/**
+ * On-disk format of a cached toolchain.
+ */
+type CachedToolchain = {
+  key: string;
+  hlsExecutable: HlsViaGhcup;
+};
+
+/**
+ * Compute the key of the cached toolchain of a project.
+ *
+ * The key changes whenever one of the project's build files, the ghcup metadata
+ * or the configuration that affects toolchain resolution changes.
+ *
+ * @param ghcup GHCup wrapper.
+ * @param workingDir Root of the project.
+ * @param configuration Settings that influence toolchain resolution.
+ * @returns Hash identifying the inputs of the toolchain resolution.
+ */
+export async function toolchainCacheKey(ghcup: GHCup, workingDir: string, configuration: unknown): Promise<string> {
+  const hash = crypto.createHash('sha256');
+  hash.update(JSON.stringify(configuration ?? null));
+  hash.update(ghcup.config.metadataUrl ?? '');
+  hash.update(await metadataVersion(ghcup));
+  for (const file of findBuildFiles(workingDir)) {
+    hash.update(path.relative(workingDir, file));
+    hash.update(fs.readFileSync(file));
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Read the cached toolchain of a project.
+ *
+ * @param storagePath Path to put in binary files and caches.
+ * @param workingDir Root of the project.
+ * @param key Expected key, see {@link toolchainCacheKey}.
+ * @param logger Logger for feedback.
+ * @returns The cached HLS executable, or `undefined` if the cache is missing, outdated or the binaries are gone.
+ */
+export function readCachedToolchain(
+  storagePath: string,
+  workingDir: string,
+  key: string,
+  logger: Logger,
+): HlsViaGhcup | undefined {
+  const cacheFile = cacheFilePath(storagePath, workingDir);
+  let cached: CachedToolchain;
+  try {
+    cached = JSON.parse(fs.readFileSync(cacheFile, { encoding: 'utf-8' })) as CachedToolchain;
+  } catch (_err) {
+    logger.info(`No cached toolchain found at ${cacheFile}`);
+    return undefined;
+  }
+  if (cached.key !== key) {
+    logger.info('The cached toolchain is outdated, the project or configuration changed');
+    return undefined;
+  }
+  const exe = cached.hlsExecutable;
+  if (!directoryExists(exe.binaryDirectory) || !executableExists(exe.location)) {
+    logger.info(`The cached toolchain in ${exe.binaryDirectory} no longer exists`);
+    return undefined;
+  }
+  logger.info(`Using cached toolchain in ${exe.binaryDirectory}`);
+  return exe;
+}
+
+/**
+ * Cache the toolchain of a project.
+ *
+ * @param storagePath Path to put in binary files and caches.
+ * @param workingDir Root of the project.
+ * @param key Key of the toolchain, see {@link toolchainCacheKey}.
+ * @param hlsExecutable The resolved HLS executable.
+ * @param logger Logger for feedback.
+ */
+export async function writeCachedToolchain(
+  storagePath: string,
+  workingDir: string,
+  key: string,
+  hlsExecutable: HlsViaGhcup,
+  logger: Logger,
+): Promise<void> {
+  const cacheFile = cacheFilePath(storagePath, workingDir);
+  const cached: CachedToolchain = { key, hlsExecutable };
+  try {
+    await fs.promises.mkdir(path.dirname(cacheFile), { recursive: true });
+    await fs.promises.writeFile(cacheFile, JSON.stringify(cached), { encoding: 'utf-8' });
+    logger.info(`Cached toolchain at ${cacheFile}`);
+  } catch (err) {
+    // the cache is an optimisation, failing to write it is not fatal
+    logger.warn(`Could not cache the toolchain at ${cacheFile}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+/**
+ * Drop the cached toolchain of a project, so that the next start sets up the toolchain from scratch.
+ *
+ * @param storagePath Path to put in binary files and caches.
+ * @param workingDir Root of the project.
+ * @param logger Logger for feedback.
+ */
+export async function removeCachedToolchain(storagePath: string, workingDir: string, logger: Logger): Promise<void> {
+  const cacheFile = cacheFilePath(storagePath, workingDir);
+  await fs.promises.rm(cacheFile, { force: true });
+  logger.info(`Removed the cached toolchain at ${cacheFile}`);
+}
+
+/**
+ * Identifies the version of the ghcup metadata: the tools it knows, with their versions and tags.
+ * The notes are left out, they change when tools are installed, e.g. `hls-powered`.
+ */
+async function metadataVersion(ghcup: GHCup): Promise<string> {
+  const tools = await ghcup.call(['list', '-r'], undefined, false).catch(() => '');
+  return tools
+    .split(/\r?\n/)
+    .map((line) => line.split(/\s+/).slice(0, 3).join(' '))
+    .join('\n');
+}
+
+function cacheFilePath(storagePath: string, workingDir: string): string {
+  const name = crypto.createHash('sha256').update(workingDir).digest('hex');
+  return path.join(storagePath, 'toolchainCache', `${name}.json`);
+}
+
+/**
+ * Find the build files of a project: the files in {@link buildFiles} and `*.cabal` files,
+ * both in the root of the project and in its immediate subdirectories (the packages of a multi-package project).
+ */
+function findBuildFiles(workingDir: string): string[] {
+  const dirs = [workingDir];
+  try {
+    fs.readdirSync(workingDir, { withFileTypes: true })
+      .filter((e) => e.isDirectory() && !e.name.startsWith('.') && !ignoredDirectories.includes(e.name))
+      .forEach((e) => dirs.push(path.join(workingDir, e.name)));
+  } catch (_err) {
+    return [];
+  }
+  const files: string[] = [];
+  for (const dir of dirs) {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch (_err) {
+      continue;
+    }
+    entries
+      .filter((e) => e.isFile() && (buildFiles.includes(e.name) || e.name.endsWith('.cabal')))
+      .map((e) => path.join(dir, e.name))
+      .sort()
+      .forEach((f) => files.push(f));
+  }
+  return files;
+}
@@ -0,0 +1,152 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Logger } from 'vscode-languageclient';
+import { HlsError } from './errors';
+import { GHCup, Tool } from './ghcup';
+
+/**
+ * Name of the lock file, placed in the root of the workspace folder.
+ */
+export const toolchainLockFileName = 'haskell-toolchain.lock.json';
+
+/**
+ * How the extension deals with toolchain lock files.
+ *
+ * - `off`: lock files are ignored.
+ * - `honour`: an existing lock file is used, but never written automatically.
+ * - `create`: like `honour`, but a lock file is created if the folder doesn't have one yet.
+ */
+export type ToolchainLockMode = 'off' | 'honour' | 'create';
+
+/**
+ * Versions of the toolchain a workspace folder is pinned to.
+ * Tools that are omitted are managed by the extension as usual.
+ */
+export type ToolchainLock = Partial<Record<Tool, string>>;
+
+const lockedTools: Tool[] = ['hls', 'ghc', 'cabal', 'stack'];
+
+/**
+ * On-disk format of the lock file.
+ */
+type ToolchainLockFile = {
+  version: 1;
+  toolchain: ToolchainLock;
+};
+
+export function toolchainLockPath(workingDir: string): string {
+  return path.join(workingDir, toolchainLockFileName);
+}
+
+/**
+ * Read the toolchain lock of a workspace folder.
+ *
+ * @param workingDir Root of the workspace folder.
+ * @param logger Logger for feedback.
+ * @returns The lock, or `undefined` if the folder has no lock file.
+ */
+export function readToolchainLock(workingDir: string, logger: Logger): ToolchainLock | undefined {
+  const lockPath = toolchainLockPath(workingDir);
+  if (!fs.existsSync(lockPath)) {
+    return undefined;
+  }
+  logger.info(`Reading toolchain lock ${lockPath}`);
+  let parsed: ToolchainLockFile;
+  try {
+    parsed = JSON.parse(fs.readFileSync(lockPath, { encoding: 'utf-8' })) as ToolchainLockFile;
+  } catch (e) {
+    throw new HlsError(`Could not parse the toolchain lock ${lockPath}: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  if (parsed.version !== 1 || typeof parsed.toolchain !== 'object' || parsed.toolchain === null) {
+    throw new HlsError(`Unsupported format of the toolchain lock ${lockPath}. Consider updating the toolchain lock.`);
+  }
+  const lock: ToolchainLock = {};
+  for (const tool of lockedTools) {
+    const version: unknown = parsed.toolchain[tool];
+    if (typeof version === 'string' && version !== '') {
+      lock[tool] = version;
+    }
+  }
+  logger.info(`Toolchain lock: ${formatToolchain(lock)}`);
+  return lock;
+}
+
+/**
+ * Write the toolchain lock of a workspace folder.
+ *
+ * Tags such as `recommended` or `latest` are resolved to the versions they currently point to,
+ * so that the lock actually pins the toolchain.
+ *
+ * @param workingDir Root of the workspace folder.
+ * @param toolchain The resolved toolchain. `null` and `undefined` entries are omitted.
+ * @param ghcup GHCup wrapper, used for resolving tags.
+ * @param logger Logger for feedback.
+ * @returns The lock that was written.
+ */
+export async function writeToolchainLock(
+  workingDir: string,
+  toolchain: Record<Tool, string | null | undefined>,
+  ghcup: GHCup,
+  logger: Logger,
+): Promise<ToolchainLock> {
+  const lock: ToolchainLock = {};
+  for (const tool of lockedTools) {
+    const version = toolchain[tool];
+    if (!version) {
+      continue;
+    }
+    lock[tool] = isVersion(version) ? version : (await ghcup.getLatestAvailableVersion(tool, version)).version;
+  }
+  const lockPath = toolchainLockPath(workingDir);
+  const lockFile: ToolchainLockFile = { version: 1, toolchain: lock };
+  logger.info(`Writing toolchain lock ${lockPath}: ${formatToolchain(lock)}`);
+  await fs.promises.writeFile(lockPath, JSON.stringify(lockFile, null, 2) + '\n', { encoding: 'utf-8' });
+  return lock;
+}
+
+/**
+ * Compare a toolchain lock with the toolchain that is actually in use.
+ *
+ * @param lock The toolchain lock of the workspace folder.
+ * @param resolved The toolchain the language server of the folder was started with.
+ * @param ghcup GHCup wrapper, used for checking which versions are installed.
+ * @returns A human readable description of every difference. Empty if there is no drift.
+ */
+export async function toolchainLockDrift(
+  lock: ToolchainLock,
+  resolved: ToolchainLock,
+  ghcup: GHCup,
+): Promise<string[]> {
+  const drift: string[] = [];
+  for (const tool of lockedTools) {
+    const locked = lock[tool];
+    if (!locked) {
+      continue;
+    }
+    const used = resolved[tool];
+    if (used && used !== locked) {
+      drift.push(`${tool}: locked to ${locked}, but the server uses ${used}`);
+    }
+    const installed = await ghcup
+      .call(['whereis', tool, locked], undefined, false)
+      .then(() => true)
+      .catch(() => false);
+    if (!installed) {
+      const set = await ghcup.getSetVersion(tool);
+      drift.push(
+        `${tool}: locked to ${locked}, which is not installed` + (set ? ` (set version: ${set.version})` : ''),
+      );
+    }
+  }
+  return drift;
+}
+
+export function formatToolchain(toolchain: ToolchainLock): string {
+  const entries = lockedTools.filter((tool) => toolchain[tool]).map((tool) => `${tool}-${toolchain[tool]}`);
+  return entries.length > 0 ? entries.join(', ') : '<empty>';
+}
+
+function isVersion(version: string): boolean {
+  const c = version.charAt(0);
+  return '0' <= c && c <= '9';
+}
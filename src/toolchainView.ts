@@ -0,0 +1,271 @@
+import {
+  commands,
+  Disposable,
+  Event,
+  EventEmitter,
+  OutputChannel,
+  QuickPickItem,
+  ThemeIcon,
+  TreeDataProvider,
+  TreeItem,
+  TreeItemCollapsibleState,
+  TreeView,
+  window,
+  workspace,
+} from 'vscode';
+import * as constants from './commands/constants';
+import { getGHCupConfig, initRedactor } from './config';
+import { describeError, UserCancelledError } from './errors';
+import { GHCup, initDefaultGHCup, Tool } from './ghcup';
+import { ExtensionLogger } from './logger';
+import { ToolchainLock } from './toolchainLock';
+import { comparePVP } from './utils';
+
+/**
+ * Id of the view, as contributed in `package.json`.
+ */
+const toolchainViewId = 'haskell.toolchains';
+
+const tools: Tool[] = ['hls', 'ghc', 'cabal', 'stack'];
+
+/**
+ * The toolchain a workspace folder's language server was started with.
+ */
+export type UsedToolchain = {
+  name: string;
+  toolchain: ToolchainLock;
+};
+
+/**
+ * A version of a tool, as ghcup knows it.
+ */
+export type ToolVersion = {
+  tool: Tool;
+  version: string;
+  tags: string[];
+  installed: boolean;
+  set: boolean;
+};
+
+type ToolchainNode = { kind: 'tool'; tool: Tool } | ({ kind: 'version' } & ToolVersion);
+
+/**
+ * Lists the versions of hls, ghc, cabal and stack ghcup knows about,
+ * which of them are installed or set, and which workspace folders use them.
+ */
+class ToolchainTreeProvider implements TreeDataProvider<ToolchainNode> {
+  private readonly changed = new EventEmitter<ToolchainNode | undefined>();
+  readonly onDidChangeTreeData: Event<ToolchainNode | undefined> = this.changed.event;
+  /**
+   * Versions per tool. Listing them takes several ghcup invocations, so they are only fetched again on {@link refresh}.
+   */
+  private readonly versions: Map<Tool, Promise<ToolVersion[]>> = new Map();
+  view?: TreeView<ToolchainNode>;
+
+  constructor(
+    private readonly logger: ExtensionLogger,
+    private readonly usedToolchains: () => UsedToolchain[],
+  ) {}
+
+  /**
+   * Ask ghcup for the versions of all tools again.
+   */
+  refresh(): void {
+    this.versions.clear();
+    this.changed.fire(undefined);
+  }
+
+  /**
+   * Re-render the view without asking ghcup, e.g. because a workspace folder now uses a different toolchain.
+   */
+  render(): void {
+    this.changed.fire(undefined);
+  }
+
+  getTreeItem(node: ToolchainNode): TreeItem {
+    if (node.kind === 'tool') {
+      const item = new TreeItem(node.tool, TreeItemCollapsibleState.Collapsed);
+      item.iconPath = new ThemeIcon('tools');
+      item.contextValue = 'haskellTool';
+      return item;
+    }
+
+    const usedBy = this.usedToolchains()
+      .filter((used) => usesVersion(used, node))
+      .map((used) => used.name);
+    const item = new TreeItem(node.version, TreeItemCollapsibleState.None);
+    item.description = [
+      ...node.tags.filter((tag) => !tag.startsWith('base-')),
+      ...(node.set ? ['set'] : []),
+      ...(usedBy.length > 0 ? [`used by ${usedBy.join(', ')}`] : []),
+    ].join(' · ');
+    item.tooltip = `${node.tool} ${node.version}: ${node.set ? 'set' : node.installed ? 'installed' : 'not installed'}`;
+    item.iconPath = new ThemeIcon(node.set ? 'pass-filled' : node.installed ? 'check' : 'cloud-download');
+    item.contextValue = node.set
+      ? 'haskellToolVersion.set'
+      : node.installed
+        ? 'haskellToolVersion.installed'
+        : 'haskellToolVersion.available';
+    return item;
+  }
+
+  async getChildren(node?: ToolchainNode): Promise<ToolchainNode[]> {
+    if (!node) {
+      return tools.map((tool) => ({ kind: 'tool', tool }));
+    } else if (node.kind === 'version') {
+      return [];
+    }
+    let versions = this.versions.get(node.tool);
+    if (!versions) {
+      versions = this.listVersions(node.tool);
+      this.versions.set(node.tool, versions);
+    }
+    try {
+      const result = await versions;
+      if (this.view) {
+        this.view.message = undefined;
+      }
+      return result.map((v) => ({ kind: 'version', ...v }));
+    } catch (e) {
+      this.versions.delete(node.tool);
+      const message = e instanceof Error ? e.message : String(e);
+      this.logger.error(`Could not list the versions of ${node.tool}: ${message}`);
+      if (this.view) {
+        this.view.message = message;
+      }
+      return [];
+    }
+  }
+
+  private async listVersions(tool: Tool): Promise<ToolVersion[]> {
+    return listToolVersions(toolchainGHCup(this.logger), tool);
+  }
+}
+
+/**
+ * List the versions of a tool ghcup can install or has installed, newest first.
+ */
+export async function listToolVersions(ghcup: GHCup, tool: Tool): Promise<ToolVersion[]> {
+  // one after the other, concurrent ghcup invocations may compete for the metadata download
+  const available = await ghcup.getAllAvailableVersions(tool);
+  const installed = await ghcup.getAllInstalledVersions(tool);
+  const set = await ghcup.getSetVersion(tool);
+  // installed versions may not be available (anymore), e.g. because they were compiled
+  const byVersion = new Map<string, ToolVersion>();
+  for (const info of [...available, ...installed]) {
+    byVersion.set(info.version, {
+      tool,
+      version: info.version,
+      tags: byVersion.get(info.version)?.tags ?? info.tags,
+      installed: installed.some((i) => i.version === info.version),
+      set: set?.version === info.version,
+    });
+  }
+  return [...byVersion.values()].sort((v1, v2) => comparePVP(v2.version, v1.version));
+}
+
+/**
+ * Whether a workspace folder uses a version of a tool. The toolchain may name the version by a tag,
+ * e.g. `recommended` in `haskell.toolchain`, which ghcup resolves to the version carrying the tag.
+ */
+export function usesVersion(used: UsedToolchain, version: ToolVersion): boolean {
+  const usedVersion = used.toolchain[version.tool];
+  return usedVersion !== undefined && (usedVersion === version.version || version.tags.includes(usedVersion));
+}
+
+/**
+ * Register the "Haskell Toolchains" view and the commands acting on its items.
+ *
+ * @param usedToolchains Look up the toolchains of the running language servers.
+ * @param onDidChangeServers Fires whenever a language server is started or stopped.
+ * @returns Disposable for the view and its commands.
+ */
+export function registerToolchainView(
+  usedToolchains: () => UsedToolchain[],
+  onDidChangeServers: Event<void>,
+): Disposable {
+  const channel: OutputChannel = window.createOutputChannel('Haskell Toolchains');
+  const haskellConfig = workspace.getConfiguration('haskell');
+  const logger = new ExtensionLogger(
+    'toolchains',
+    haskellConfig.get('trace.components.toolchain') ?? 'info',
+    channel,
+    undefined,
+    { redactor: initRedactor(haskellConfig) },
+  );
+  const provider = new ToolchainTreeProvider(logger, usedToolchains);
+  const view = window.createTreeView(toolchainViewId, { treeDataProvider: provider, showCollapseAll: true });
+  provider.view = view;
+
+  /**
+   * Run a ghcup action, report failures and refresh the view afterwards.
+   */
+  const runGHCup = async (action: (ghcup: GHCup) => Promise<void>) => {
+    try {
+      await action(toolchainGHCup(logger));
+    } catch (e) {
+      logger.error(describeError(e));
+      if (!(e instanceof UserCancelledError)) {
+        void window.showErrorMessage(describeError(e));
+      }
+    }
+    provider.refresh();
+  };
+
+  return Disposable.from(
+    channel,
+    view,
+    onDidChangeServers(() => provider.render()),
+    commands.registerCommand(constants.RefreshToolchainsCommandName, () => provider.refresh()),
+    commands.registerCommand(constants.InstallToolCommandName, (node: ToolVersion) =>
+      runGHCup((ghcup) => ghcup.install(node.tool, node.version)),
+    ),
+    commands.registerCommand(constants.SetToolCommandName, (node: ToolVersion) =>
+      runGHCup((ghcup) => ghcup.set(node.tool, node.version)),
+    ),
+    commands.registerCommand(constants.UninstallToolCommandName, async (node: ToolVersion) => {
+      const usedBy = usedToolchains().filter((used) => usesVersion(used, node));
+      const decision = await window.showWarningMessage(
+        `Uninstall ${node.tool} ${node.version}?` +
+          (usedBy.length > 0 ? ` It is in use by ${usedBy.map((used) => used.name).join(', ')}.` : ''),
+        { modal: true },
+        'Uninstall',
+      );
+      if (decision === 'Uninstall') {
+        await runGHCup((ghcup) => ghcup.remove(node.tool, node.version));
+      }
+    }),
+    commands.registerCommand(constants.GarbageCollectToolsCommandName, async () => {
+      const options = await window.showQuickPick(garbageCollectOptions, {
+        canPickMany: true,
+        title: 'What should ghcup clean up?',
+      });
+      if (options && options.length > 0) {
+        await runGHCup((ghcup) => ghcup.garbageCollect(options.map((o) => o.flag)));
+      }
+    }),
+  );
+}
+
+const garbageCollectOptions: (QuickPickItem & { flag: string })[] = [
+  { label: 'Old GHC versions', description: "GHC versions tagged 'old'", flag: '--ghc-old', picked: true },
+  {
+    label: 'HLS without GHC',
+    description: 'HLS binaries for GHC versions that are not installed',
+    flag: '--hls-no-ghc',
+    picked: true,
+  },
+  { label: 'Download cache', flag: '--cache', picked: true },
+  { label: 'Temporary directories', flag: '--tmpdirs', picked: true },
+  {
+    label: 'Profiling libraries',
+    description: 'Profiling libraries of all installed GHC versions',
+    flag: '--profiling-libs',
+  },
+  { label: 'GHC share directories', description: 'Documentation of all installed GHC versions', flag: '--share-dir' },
+];
+
+function toolchainGHCup(logger: ExtensionLogger): GHCup {
+  // the view isn't tied to any workspace folder
+  return initDefaultGHCup(getGHCupConfig(workspace.getConfiguration('haskell')), logger);
+}
@@ -1,12 +1,14 @@
 import * as child_process from 'child_process';
 import * as fs from 'fs';
+import * as http from 'http';
 import * as https from 'https';
 import * as os from 'os';
+import * as path from 'path';
 import * as process from 'process';
-import { ProgressLocation, window, workspace, WorkspaceFolder } from 'vscode';
+import { ProgressLocation, Uri, window, workspace, WorkspaceFolder } from 'vscode';
 import { Logger } from 'vscode-languageclient';
 import * as which from 'which';
-import { HlsError } from './errors';
+import { HlsError, MetadataFetchError, UndefinedVariableError, UserCancelledError } from './errors';
 
 // Used for environment variables later on
 export type IEnvVars = {
@@ -38,6 +40,7 @@ export type ProcessCallback = (
  * @param cancellable Can the user cancel this process invocation?
  * @param envAdd Extra environment variables for this process only.
  * @param callback Upon process termination, execute this callback. If given, must resolve promise. On error, stderr and stdout are logged regardless of whether the callback has been specified.
+ * @param folder Workspace folder whose `haskell.serverEnvironment` applies, by default the folder of `dir`.
  * @returns Stdout of the process invocation, trimmed off newlines, or whatever the `callback` resolved to.
  */
 export function callAsync(
@@ -49,11 +52,13 @@ export function callAsync(
   cancellable?: boolean,
   envAdd?: IEnvVars,
   callback?: ProcessCallback,
+  folder?: WorkspaceFolder,
 ): Thenable<string> {
-  let newEnv: IEnvVars = resolveServerEnvironmentPATH(
-    workspace.getConfiguration('haskell').get('serverEnvironment') || {},
-  );
-  newEnv = { ...(process.env as IEnvVars), ...newEnv, ...(envAdd || {}) };
+  const newEnv: IEnvVars = {
+    ...(process.env as IEnvVars),
+    ...folderServerEnvironment(folder ?? (dir ? workspaceFolderOf(dir) : undefined)),
+    ...(envAdd || {}),
+  };
   return window.withProgress(
     {
       location: ProgressLocation.Notification,
@@ -82,12 +87,15 @@ export function callAsync(
                   logger.error(`stdout: ${stdout}`);
                 }
               }
-              if (callback) {
+              if (token.isCancellationRequested) {
+                // the process was killed, its output and exit code don't mean anything
+                reject(new UserCancelledError(title ?? command));
+              } else if (callback) {
                 callback(err, stdout, stderr, resolve, reject);
               } else {
                 if (err) {
                   reject(
-                    Error(`\`${command}\` exited with exit code ${err.code}.
+                    new HlsError(`\`${command}\` exited with exit code ${err.code}.
                               Consult the [Extensions Output](https://github.com/haskell/vscode-haskell#investigating-and-reporting-problems)
                               for details.`),
                   );
@@ -108,7 +116,11 @@ export function callAsync(
               reject(err);
             }
           });
-        token.onCancellationRequested(() => childProcess.kill());
+        token.onCancellationRequested(() => {
+          childProcess.kill();
+          // don't wait for the process to exit, it may ignore the signal
+          reject(new UserCancelledError(title ?? command));
+        });
       });
     },
   );
@@ -166,45 +178,84 @@ export async function httpsGetSilently(options: https.RequestOptions): Promise<s
   };
 
   return new Promise((resolve, reject) => {
+    const fail = (err: Error) => reject(new MetadataFetchError(`Couldn't download ${opts.host}${opts.path}`, err));
     let data = '';
     https
       .get(opts, (res) => {
         if (res.statusCode === 301 || res.statusCode === 302) {
           if (!res.headers.location) {
-            reject(new Error('301/302 without a location header'));
+            reject(new MetadataFetchError(`${res.statusCode} without a location header from ${opts.host}${opts.path}`));
             return;
           }
-          https.get(res.headers.location, (resAfterRedirect) => {
-            resAfterRedirect.on('data', (d) => (data += d));
-            resAfterRedirect.on('error', reject);
-            resAfterRedirect.on('close', () => {
-              resolve(data);
-            });
-          });
+          https
+            .get(res.headers.location, (resAfterRedirect) => {
+              resAfterRedirect.on('data', (d) => (data += d));
+              resAfterRedirect.on('error', fail);
+              resAfterRedirect.on('close', () => {
+                resolve(data);
+              });
+            })
+            .on('error', fail);
         } else if (!res.statusCode || res.statusCode >= 400) {
-          reject(new Error(`Unexpected status code: ${res.statusCode}`));
+          reject(new MetadataFetchError(`Unexpected status code ${res.statusCode} for ${opts.host}${opts.path}`));
         } else {
           res.on('data', (d) => (data += d));
-          res.on('error', reject);
+          res.on('error', fail);
           res.on('close', () => {
             resolve(data);
           });
         }
       })
-      .on('error', reject);
+      .on('error', fail);
+  });
+}
+
+const downloadHint = 'Check your internet connection and "haskell.hackageBaseUrl"';
+
+/**
+ * Download a file, following redirects.
+ *
+ * @param url URL to download, `http:` or `https:`.
+ * @param file Where to write the download to.
+ * @param redirects How many redirects to follow at most.
+ * @returns `true` if the file was downloaded, `false` if the server doesn't have it (404).
+ * @throws HlsError if the download fails otherwise.
+ */
+export async function downloadFile(url: string, file: string, redirects: number = 5): Promise<boolean> {
+  const get = url.startsWith('http:') ? http.get : https.get;
+  return new Promise((resolve, reject) => {
+    const fail = (err: Error) => reject(new HlsError(`Couldn't download ${url}`, { hint: downloadHint, cause: err }));
+    get(url, { headers: userAgentHeader }, (res) => {
+      const status = res.statusCode ?? 0;
+      if (300 <= status && status < 400 && res.headers.location && redirects > 0) {
+        res.resume();
+        downloadFile(new URL(res.headers.location, url).toString(), file, redirects - 1).then(resolve, reject);
+      } else if (status === 404) {
+        res.resume();
+        resolve(false);
+      } else if (status < 200 || status >= 300) {
+        res.resume();
+        reject(new HlsError(`Unexpected status code ${status} for ${url}`, { hint: downloadHint }));
+      } else {
+        const out = fs.createWriteStream(file);
+        res.pipe(out);
+        out.on('finish', () => resolve(true));
+        out.on('error', reject);
+        res.on('error', fail);
+      }
+    }).on('error', fail);
   });
 }
 
 /**
  * Checks if the executable is on the PATH
  * @param exe Name of the executable to find. Caller must ensure '.exe' extension is included on windows.
+ * @param envAdd Extra environment variables to search in, e.g. a different PATH.
+ * @param folder Workspace folder whose `haskell.serverEnvironment` applies.
  */
-export function executableExists(exe: string): boolean {
+export function executableExists(exe: string, envAdd?: IEnvVars, folder?: WorkspaceFolder): boolean {
   const isWindows = process.platform === 'win32';
-  let newEnv: IEnvVars = resolveServerEnvironmentPATH(
-    workspace.getConfiguration('haskell').get('serverEnvironment') || {},
-  );
-  newEnv = { ...(process.env as IEnvVars), ...newEnv };
+  const newEnv: IEnvVars = { ...(process.env as IEnvVars), ...folderServerEnvironment(folder), ...(envAdd || {}) };
   const cmd: string = isWindows ? 'where' : 'which';
   const out = child_process.spawnSync(cmd, [exe], { env: newEnv });
   return out.status === 0 || (which.sync(exe, { nothrow: true, path: newEnv.PATH }) ?? '') !== '';
@@ -214,47 +265,179 @@ export function directoryExists(path: string): boolean {
   return fs.existsSync(path) && fs.lstatSync(path).isDirectory();
 }
 
-export function expandHomeDir(path: string): string {
-  if (path.startsWith('~')) {
-    return path.replace('~', os.homedir);
-  }
-  return path;
+/**
+ * Substitute the variables in a setting, like VS Code does in tasks, replacing every occurrence of
+ * - `${userHome}`, `${HOME}`, `${home}` and a leading `~` with the home directory,
+ * - `${workspaceFolder}` and `${workspaceRoot}` with the path of the workspace folder,
+ *   `${workspaceFolderBasename}` with its name on disk, and `${workspaceFolder:<name>}` with the path of the folder `<name>`,
+ * - `${env:<name>}` with the value of an environment variable of the extension, `$PATH` and `${PATH}` with its PATH.
+ *
+ * @param value Value of the setting.
+ * @param setting Name of the setting, for error messages.
+ * @param folder Workspace folder the setting applies to.
+ * @returns The value with all variables substituted.
+ * @throws UndefinedVariableError if a variable is unknown or has no value.
+ */
+export function substituteVariables(value: string, setting: string, folder?: WorkspaceFolder): string {
+  return value
+    .replace(/^~(?=$|[\\/])/, () => os.homedir())
+    .replace(/\$\{([^}]*)\}|\$PATH\b/g, (variable: string, name?: string) =>
+      resolveVariable(variable, name ?? 'PATH', setting, folder),
+    );
 }
 
-export function resolvePathPlaceHolders(path: string, folder?: WorkspaceFolder) {
-  path = path.replace('${HOME}', os.homedir).replace('${home}', os.homedir).replace(/^~/, os.homedir);
-  if (folder) {
-    path = path.replace('${workspaceFolder}', folder.uri.path).replace('${workspaceRoot}', folder.uri.path);
+function resolveVariable(variable: string, name: string, setting: string, folder?: WorkspaceFolder): string {
+  const undefinedVariable = (reason: string) => new UndefinedVariableError(variable, reason, setting);
+  switch (name) {
+    case 'userHome':
+    case 'HOME':
+    case 'home':
+      return os.homedir();
+    case 'workspaceFolder':
+    case 'workspaceRoot':
+    case 'workspaceFolderBasename':
+      if (!folder) {
+        throw undefinedVariable('the file is not in a workspace folder');
+      }
+      return name === 'workspaceFolderBasename' ? path.basename(folder.uri.fsPath) : folder.uri.fsPath;
+    case 'PATH':
+      name = 'env:PATH';
+  }
+  if (name.startsWith('env:')) {
+    const value = process.env[name.substring('env:'.length)];
+    if (value === undefined) {
+      throw undefinedVariable(`the environment variable ${name.substring('env:'.length)} is not set`);
+    }
+    return value;
+  } else if (name.startsWith('workspaceFolder:')) {
+    const folderName = name.substring('workspaceFolder:'.length);
+    const namedFolder = workspace.workspaceFolders?.find((f) => f.name === folderName);
+    if (!namedFolder) {
+      throw undefinedVariable(`there is no workspace folder named ${folderName}`);
+    }
+    return namedFolder.uri.fsPath;
   }
-  return path;
+  throw undefinedVariable('unknown variable');
 }
 
-export function resolvePATHPlaceHolders(path: string) {
-  return path
-    .replace('${HOME}', os.homedir)
-    .replace('${home}', os.homedir)
-    .replace('$PATH', process.env.PATH ?? '$PATH')
-    .replace('${PATH}', process.env.PATH ?? '${PATH}');
+/**
+ * Substitute the variables in the values of a server environment, see `substituteVariables`.
+ * Variables that can't be substituted are left out, `validateConfig` reports them.
+ *
+ * @param serverEnv The environment, usually `haskell.serverEnvironment`.
+ * @param folder Workspace folder the environment applies to.
+ */
+export function resolveServerEnvironment(serverEnv: IEnvVars, folder?: WorkspaceFolder): IEnvVars {
+  return Object.fromEntries(
+    Object.entries(serverEnv).flatMap(([key, value]) => {
+      try {
+        return [[key, substituteVariables(value, `haskell.serverEnvironment.${key}`, folder)]];
+      } catch (_err) {
+        return [];
+      }
+    }),
+  );
 }
 
-// also honours serverEnvironment.PATH
-export function addPathToProcessPath(extraPath: string): string {
-  const pathSep = process.platform === 'win32' ? ';' : ':';
-  const serverEnvironment: IEnvVars = workspace.getConfiguration('haskell').get('serverEnvironment') || {};
-  const path: string[] = serverEnvironment.PATH
-    ? serverEnvironment.PATH.split(pathSep).map((p) => resolvePATHPlaceHolders(p))
-    : (process.env.PATH?.split(pathSep) ?? []);
-  path.unshift(extraPath);
-  return path.join(pathSep);
+/**
+ * The `haskell.serverEnvironment` of a workspace folder with its variables substituted,
+ * the same environment `initConfig` gives the server.
+ */
+export function folderServerEnvironment(folder?: WorkspaceFolder): IEnvVars {
+  return resolveServerEnvironment(workspace.getConfiguration('haskell', folder).get('serverEnvironment') || {}, folder);
+}
+
+/**
+ * The workspace folder a directory is in, e.g. the working directory of a server.
+ */
+export function workspaceFolderOf(dir: string): WorkspaceFolder | undefined {
+  return workspace.getWorkspaceFolder(Uri.file(dir));
+}
+
+/**
+ * Split a command line into arguments the way a POSIX shell does, without expanding anything.
+ * Arguments are separated by whitespace, single quotes keep everything literally,
+ * and a backslash escapes the next character, inside double quotes only `"`, `\` and `$`.
+ *
+ * On Windows, backslashes separate paths, so a backslash only escapes a quote or whitespace
+ * and is kept otherwise, e.g. `-l C:\Users\me\hls.log` stays one argument with its backslashes.
+ *
+ * @param line The command line, e.g. `+RTS -M4G -RTS --cwd "my project"`.
+ * @param platform The platform whose conventions apply.
+ * @returns The arguments, e.g. `['+RTS', '-M4G', '-RTS', '--cwd', 'my project']`.
+ * @throws Error if a quote isn't closed or, except on Windows, the line ends with a backslash.
+ */
+export function parseCommandLine(line: string, platform: NodeJS.Platform = process.platform): string[] {
+  const windows = platform === 'win32';
+  const args: string[] = [];
+  let current: string | null = null;
+  let quote: "'" | '"' | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const c = line[i];
+    if (quote === "'") {
+      if (c === "'") {
+        quote = null;
+      } else {
+        current += c;
+      }
+    } else if (c === '\\' && windows) {
+      const next = line[i + 1] ?? '';
+      // inside double quotes, a single quote and whitespace are literal anyway
+      if (next === '"' || (quote === null && (next === "'" || /\s/.test(next)))) {
+        current = (current ?? '') + next;
+        i++;
+      } else {
+        current = (current ?? '') + c;
+      }
+    } else if (c === '\\') {
+      if (i + 1 >= line.length) {
+        throw new Error(`Trailing backslash in ${line}`);
+      }
+      const next = line[++i];
+      current = (current ?? '') + (quote === '"' && !['"', '\\', '$'].includes(next) ? c + next : next);
+    } else if (quote === '"') {
+      if (c === '"') {
+        quote = null;
+      } else {
+        current += c;
+      }
+    } else if (c === "'" || c === '"') {
+      quote = c;
+      current = current ?? '';
+    } else if (/\s/.test(c)) {
+      if (current !== null) {
+        args.push(current);
+        current = null;
+      }
+    } else {
+      current = (current ?? '') + c;
+    }
+  }
+  if (quote) {
+    throw new Error(`Unterminated ${quote} quote in ${line}`);
+  }
+  if (current !== null) {
+    args.push(current);
+  }
+  return args;
 }
 
-export function resolveServerEnvironmentPATH(serverEnv: IEnvVars): IEnvVars {
+/**
+ * Render a command line for logs, quoting the arguments so that `parseCommandLine` gives them back.
+ */
+export function formatCommandLine(command: string, args: string[]): string {
+  return [command, ...args]
+    .map((arg) => (arg === '' || /[\s'"\\$`]/.test(arg) ? `'${arg.replace(/'/g, `'\\''`)}'` : arg))
+    .join(' ');
+}
+
+// also honours serverEnvironment.PATH of the workspace folder
+export function addPathToProcessPath(extraPath: string, folder?: WorkspaceFolder): string {
   const pathSep = process.platform === 'win32' ? ';' : ':';
-  const path: string[] | null = serverEnv.PATH
-    ? serverEnv.PATH.split(pathSep).map((p) => resolvePATHPlaceHolders(p))
-    : null;
-  return {
-    ...serverEnv,
-    ...(path ? { PATH: path.join(pathSep) } : {}),
-  };
+  const serverEnvironment = folderServerEnvironment(folder);
+  const paths: string[] = serverEnvironment.PATH
+    ? serverEnvironment.PATH.split(pathSep)
+    : (process.env.PATH?.split(pathSep) ?? []);
+  paths.unshift(extraPath);
+  return paths.join(pathSep);
 }
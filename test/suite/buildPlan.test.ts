@@ -0,0 +1,88 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parsePackageId, projectPackageVersions } from '../../src/buildPlan';
+
+suite('Build plans', () => {
+  let dir: string;
+
+  setup(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'build-plan-'));
+  });
+
+  teardown(() => {
+    fs.rmSync(dir, { recursive: true });
+  });
+
+  test('Package ids are split into name and version', () => {
+    assert.deepStrictEqual(parsePackageId('text-2.0.2'), { name: 'text', version: '2.0.2' });
+    assert.deepStrictEqual(parsePackageId('aeson-pretty-0.8.10-1a2b3c4d'), { name: 'aeson-pretty', version: '0.8.10' });
+    assert.deepStrictEqual(parsePackageId('base64-1.0'), { name: 'base64', version: '1.0' });
+    assert.strictEqual(parsePackageId('html'), undefined);
+    assert.strictEqual(parsePackageId('2.0.2'), undefined);
+  });
+
+  test('Reads the versions from the cabal build plan', () => {
+    fs.mkdirSync(path.join(dir, 'dist-newstyle', 'cache'), { recursive: true });
+    fs.writeFileSync(
+      path.join(dir, 'dist-newstyle', 'cache', 'plan.json'),
+      JSON.stringify({
+        'install-plan': [
+          { 'pkg-name': 'text', 'pkg-version': '2.0.2' },
+          { 'pkg-name': 'base', 'pkg-version': '4.18.2.1', style: 'global' },
+        ],
+      }),
+    );
+    assert.deepStrictEqual(
+      projectPackageVersions(dir),
+      new Map([
+        ['text', '2.0.2'],
+        ['base', '4.18.2.1'],
+      ]),
+    );
+  });
+
+  test('Reads the versions from the stack lock file, the cabal build plan wins', () => {
+    fs.writeFileSync(
+      path.join(dir, 'stack.yaml.lock'),
+      [
+        'packages:',
+        '- completed:',
+        '    hackage: text-2.0.1@sha256:abc,123',
+        '- completed:',
+        "    hackage: 'lens-5.2.3@sha256:def,456'",
+      ].join('\n'),
+    );
+    fs.mkdirSync(path.join(dir, 'dist-newstyle', 'cache'), { recursive: true });
+    fs.writeFileSync(
+      path.join(dir, 'dist-newstyle', 'cache', 'plan.json'),
+      JSON.stringify({ 'install-plan': [{ 'pkg-name': 'text', 'pkg-version': '2.0.2' }] }),
+    );
+    assert.deepStrictEqual(
+      projectPackageVersions(dir),
+      new Map([
+        ['text', '2.0.2'],
+        ['lens', '5.2.3'],
+      ]),
+    );
+  });
+
+  test('The packages of the project itself are left out, they are not on Hackage', () => {
+    fs.mkdirSync(path.join(dir, 'dist-newstyle', 'cache'), { recursive: true });
+    fs.writeFileSync(
+      path.join(dir, 'dist-newstyle', 'cache', 'plan.json'),
+      JSON.stringify({
+        'install-plan': [
+          { 'pkg-name': 'my-project', 'pkg-version': '0.1.0.0', style: 'local' },
+          { 'pkg-name': 'text', 'pkg-version': '2.0.2', style: 'global' },
+        ],
+      }),
+    );
+    assert.deepStrictEqual(projectPackageVersions(dir), new Map([['text', '2.0.2']]));
+  });
+
+  test('A project without a build plan has no versions', () => {
+    assert.deepStrictEqual(projectPackageVersions(dir), new Map());
+  });
+});
@@ -0,0 +1,41 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { HlsError, UserCancelledError } from '../../src/errors';
+import { callAsync } from '../../src/utils';
+import { silentLogger } from './fakeGhcup';
+
+type WithProgress = typeof vscode.window.withProgress;
+
+suite('Cancellation', () => {
+  const withProgress = vscode.window.withProgress;
+  let cancellation: vscode.CancellationTokenSource;
+
+  // a progress notification the test cancels instead of the user
+  setup(() => {
+    cancellation = new vscode.CancellationTokenSource();
+    const fake: WithProgress = (_options, task) => Promise.resolve(task({ report: () => {} }, cancellation.token));
+    (vscode.window as { withProgress: WithProgress }).withProgress = fake;
+  });
+
+  teardown(() => {
+    (vscode.window as { withProgress: WithProgress }).withProgress = withProgress;
+    cancellation.dispose();
+  });
+
+  test('Cancelling kills the process and fails with a UserCancelledError', async () => {
+    const call = callAsync('node', ['-e', 'setTimeout(() => {}, 60000)'], silentLogger, undefined, 'Waiting', true);
+    cancellation.cancel();
+    await assert.rejects(
+      Promise.resolve(call),
+      (err) => err instanceof UserCancelledError && err.message === 'Cancelled: Waiting',
+    );
+  });
+
+  test('Processes that are not cancelled succeed or fail on their own', async () => {
+    assert.strictEqual(await callAsync('node', ['-e', 'console.log(" done ")'], silentLogger), 'done');
+    await assert.rejects(
+      Promise.resolve(callAsync('node', ['-e', 'process.exit(3)'], silentLogger)),
+      (err) => err instanceof HlsError && !(err instanceof UserCancelledError),
+    );
+  });
+});
@@ -0,0 +1,48 @@
+import * as assert from 'assert';
+import { formatCommandLine, parseCommandLine } from '../../src/utils';
+
+suite('Command lines', () => {
+  test('Splits at whitespace', () => {
+    assert.deepStrictEqual(parseCommandLine('  +RTS -M4G\t-RTS  ', 'linux'), ['+RTS', '-M4G', '-RTS']);
+    assert.deepStrictEqual(parseCommandLine('', 'linux'), []);
+  });
+
+  test('Keeps quoted whitespace', () => {
+    assert.deepStrictEqual(parseCommandLine(`--cwd "my project" 'a b'`, 'linux'), ['--cwd', 'my project', 'a b']);
+    assert.deepStrictEqual(parseCommandLine(`"" ''`, 'linux'), ['', '']);
+    assert.deepStrictEqual(parseCommandLine(`pre"a b"'c d'post`, 'linux'), ['prea bc dpost']);
+  });
+
+  test('Escapes with backslashes like a POSIX shell', () => {
+    assert.deepStrictEqual(parseCommandLine('my\\ project \\"', 'linux'), ['my project', '"']);
+    assert.deepStrictEqual(parseCommandLine(`"a\\"b" "c\\d" 'e\\f'`, 'linux'), ['a"b', 'c\\d', 'e\\f']);
+    assert.throws(() => parseCommandLine('trailing\\', 'linux'));
+  });
+
+  test('Fails on unterminated quotes', () => {
+    assert.throws(() => parseCommandLine('"open', 'linux'));
+    assert.throws(() => parseCommandLine("'open", 'win32'));
+  });
+
+  test('Keeps the backslashes of Windows paths', () => {
+    assert.deepStrictEqual(parseCommandLine('-l C:\\Users\\me\\hls.log', 'win32'), ['-l', 'C:\\Users\\me\\hls.log']);
+    assert.deepStrictEqual(parseCommandLine('-l "C:\\my project\\hls.log"', 'win32'), [
+      '-l',
+      'C:\\my project\\hls.log',
+    ]);
+    assert.deepStrictEqual(parseCommandLine('--cwd "C:\\my project"\\', 'win32'), ['--cwd', 'C:\\my project\\']);
+  });
+
+  test('Escapes quotes and whitespace on Windows', () => {
+    assert.deepStrictEqual(parseCommandLine('my\\ project \\" \\\'', 'win32'), ['my project', '"', "'"]);
+    assert.deepStrictEqual(parseCommandLine('"a\\"b"', 'win32'), ['a"b']);
+  });
+
+  test('Formats command lines that parse back to the same arguments', () => {
+    const args = ['--lsp', '', 'my project', "it's", 'C:\\Users\\me\\hls.log', '$HOME', '"quoted"'];
+    const line = formatCommandLine('haskell-language-server', args);
+    assert.deepStrictEqual(parseCommandLine(line, 'linux'), ['haskell-language-server', ...args]);
+    assert.deepStrictEqual(parseCommandLine(line, 'win32'), ['haskell-language-server', ...args]);
+    assert.strictEqual(formatCommandLine('hls', ['--lsp', '-d']), 'hls --lsp -d');
+  });
+});
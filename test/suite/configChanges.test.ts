@@ -0,0 +1,53 @@
+import * as assert from 'assert';
+import { Uri } from 'vscode';
+import { classifyConfigChange } from '../../src/configChanges';
+import { registerConfigSchema } from '../../src/configValidation';
+import { fakeChange } from './fakes';
+
+suite('Configuration changes', () => {
+  suiteSetup(() => {
+    const settings = ['manageHLS', 'toolchain', 'serverExtraArgs', 'logFile', 'formattingProvider', 'hoogle.database'];
+    registerConfigSchema({
+      contributes: {
+        configuration: {
+          properties: Object.fromEntries(settings.map((setting) => [`haskell.${setting}`, { type: 'string' }])),
+        },
+      },
+    });
+  });
+
+  test('Changes nothing if no setting of the extension changed', () => {
+    assert.deepStrictEqual(classifyConfigChange(fakeChange(['editor.tabSize'])), { action: 'none', settings: [] });
+    assert.deepStrictEqual(classifyConfigChange(fakeChange(['haskell.hoogle.database'])), {
+      action: 'none',
+      settings: [],
+    });
+  });
+
+  test('Pushes settings of the server', () => {
+    assert.deepStrictEqual(classifyConfigChange(fakeChange(['haskell.formattingProvider'])), {
+      action: 'push',
+      settings: ['formattingProvider'],
+    });
+  });
+
+  test('Restarts the server for settings used to launch it', () => {
+    const change = fakeChange(['haskell.serverExtraArgs', 'haskell.logFile', 'haskell.formattingProvider']);
+    assert.deepStrictEqual(classifyConfigChange(change), {
+      action: 'restart',
+      settings: ['serverExtraArgs', 'logFile'],
+    });
+  });
+
+  test('Resolves the toolchain again, which wins over the other actions', () => {
+    const change = fakeChange(['haskell.toolchain', 'haskell.manageHLS', 'haskell.serverExtraArgs']);
+    assert.deepStrictEqual(classifyConfigChange(change), { action: 'resolve', settings: ['manageHLS', 'toolchain'] });
+  });
+
+  test('Only considers changes in the scope of the server', () => {
+    const folder = Uri.file('/project');
+    const change = fakeChange(['haskell.toolchain'], folder);
+    assert.strictEqual(classifyConfigChange(change, folder).action, 'resolve');
+    assert.strictEqual(classifyConfigChange(change, Uri.file('/other')).action, 'none');
+  });
+});
@@ -0,0 +1,75 @@
+import * as assert from 'assert';
+import { registerConfigSchema, validateConfig, validSetting } from '../../src/configValidation';
+import { fakeConfig } from './fakes';
+
+suite('Configuration validation', () => {
+  suiteSetup(() => {
+    registerConfigSchema({
+      contributes: {
+        configuration: {
+          properties: {
+            'haskell.manageHLS': { type: 'string', enum: ['GHCup', 'PATH'], default: 'PATH' },
+            'haskell.crashRecovery.maxRestarts': { type: 'integer', minimum: 0, default: 5 },
+            'haskell.toolchain': {
+              type: 'object',
+              default: {},
+              properties: { ghc: { type: 'string' }, hls: { type: 'string' } },
+              additionalProperties: false,
+            },
+            'haskell.serverExtraArgs': { type: ['string', 'array'], items: { type: 'string' }, default: '' },
+            'haskell.trace.redact': { type: 'array', items: { type: 'string' }, default: [] },
+            'haskell.logFile': { type: 'string', default: '' },
+            'other.setting': { type: 'string' },
+          },
+        },
+      },
+    });
+  });
+
+  test('Valid settings have no problems', () => {
+    const config = fakeConfig({
+      manageHLS: 'GHCup',
+      'crashRecovery.maxRestarts': 3,
+      toolchain: { ghc: '9.6.6' },
+      serverExtraArgs: ['--debug'],
+      'trace.redact': ['corp-[0-9]+'],
+      logFile: '',
+    });
+    assert.deepStrictEqual(validateConfig(config), []);
+  });
+
+  test('Reports values that do not match the schema', () => {
+    const problems = validateConfig(
+      fakeConfig({ manageHLS: 'Stack', 'crashRecovery.maxRestarts': -1, serverExtraArgs: [1] }),
+    );
+    assert.deepStrictEqual(
+      problems.map((problem) => problem.setting),
+      ['manageHLS', 'crashRecovery.maxRestarts', 'serverExtraArgs'],
+    );
+    assert.ok(problems[0].message.includes('Using the default "PATH"'));
+  });
+
+  test('Reports unknown keys of objects', () => {
+    const problems = validateConfig(fakeConfig({ toolchain: { ghc: '9.6.6', cabl: '3.10' } }));
+    assert.strictEqual(problems.length, 1);
+    assert.ok(problems[0].message.includes('unknown key "cabl"'));
+    assert.ok(problems[0].message.includes('Invalid entries are ignored'));
+  });
+
+  test('Reports values that are interpreted further', () => {
+    const problems = validateConfig(
+      fakeConfig({ serverExtraArgs: '--cwd "open', 'trace.redact': ['(unclosed'], logFile: '${unknown}' }),
+    );
+    assert.deepStrictEqual(
+      problems.map((problem) => problem.setting),
+      ['serverExtraArgs', 'trace.redact', 'logFile'],
+    );
+  });
+
+  test('Invalid settings fall back to their default, invalid entries are dropped', () => {
+    const config = fakeConfig({ manageHLS: 42, toolchain: { ghc: '9.6.6', hls: 2, cabl: '3.10' } });
+    assert.strictEqual(validSetting(config, 'manageHLS'), 'PATH');
+    assert.deepStrictEqual(validSetting(config, 'toolchain'), { ghc: '9.6.6' });
+    assert.strictEqual(validSetting(fakeConfig({ manageHLS: 'GHCup' }), 'manageHLS'), 'GHCup');
+  });
+});
@@ -0,0 +1,32 @@
+import * as assert from 'assert';
+import { Uri } from 'vscode';
+import { containerUriConverters, hostToContainerPath, parsePathMappings } from '../../src/container';
+
+suite('Container', () => {
+  const mappings = parsePathMappings({ '/home/me/project': '/workspace', '/home/me/project/vendor/': '/vendor' });
+
+  test('Nested mappings win over the mappings they are nested in', () => {
+    assert.deepStrictEqual(mappings, [
+      { host: '/home/me/project/vendor', container: '/vendor' },
+      { host: '/home/me/project', container: '/workspace' },
+    ]);
+  });
+
+  test('Paths inside a mapped directory are translated', () => {
+    assert.strictEqual(hostToContainerPath('/home/me/project/src/Main.hs', mappings), '/workspace/src/Main.hs');
+    assert.strictEqual(hostToContainerPath('/home/me/project/vendor/lib/A.hs', mappings), '/vendor/lib/A.hs');
+    assert.strictEqual(hostToContainerPath('/home/me/project', mappings), '/workspace');
+  });
+
+  test('Paths outside of the mapped directories are unchanged', () => {
+    assert.strictEqual(hostToContainerPath('/home/me/other/Main.hs', mappings), '/home/me/other/Main.hs');
+    assert.strictEqual(hostToContainerPath('/home/me/project2/Main.hs', mappings), '/home/me/project2/Main.hs');
+  });
+
+  test('URIs are translated in both directions', () => {
+    const converters = containerUriConverters(mappings);
+    const hostUri = Uri.file('/home/me/project/src/Main.hs');
+    assert.strictEqual(converters.code2Protocol(hostUri), 'file:///workspace/src/Main.hs');
+    assert.strictEqual(converters.protocol2Code('file:///workspace/src/Main.hs').path, hostUri.path);
+  });
+});
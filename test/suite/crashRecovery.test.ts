@@ -0,0 +1,106 @@
+import * as assert from 'assert';
+import { CloseAction, Logger } from 'vscode-languageclient';
+import * as os from 'os';
+import { crashReport, RestartWithBackoff, StderrCapturingChannel } from '../../src/crashRecovery';
+import { Redactor } from '../../src/redaction';
+import { fakeChannel } from './fakes';
+
+const silentLogger: Logger = {
+  error: () => {},
+  warn: () => {},
+  info: () => {},
+  log: () => {},
+};
+
+suite('Crash recovery', () => {
+  test('Restarts until maxRestarts crashes in a row, then gives up', async () => {
+    let crashes = 0;
+    let givenUp = 0;
+    const handler = new RestartWithBackoff(
+      { maxRestarts: 2, initialDelay: 0, stderrLines: 10 },
+      silentLogger,
+      () => crashes++,
+      () => givenUp++,
+    );
+    assert.strictEqual((await handler.closed()).action, CloseAction.Restart);
+    assert.strictEqual((await handler.closed()).action, CloseAction.Restart);
+    assert.strictEqual((await handler.closed()).action, CloseAction.DoNotRestart);
+    assert.strictEqual(crashes, 3);
+    assert.strictEqual(givenUp, 1);
+  });
+
+  test('Counts from zero again after giving up, e.g. when the user restarts the server', async () => {
+    let givenUp = 0;
+    const handler = new RestartWithBackoff(
+      { maxRestarts: 1, initialDelay: 0, stderrLines: 10 },
+      silentLogger,
+      () => {},
+      () => givenUp++,
+    );
+    assert.strictEqual((await handler.closed()).action, CloseAction.Restart);
+    assert.strictEqual((await handler.closed()).action, CloseAction.DoNotRestart);
+    assert.strictEqual((await handler.closed()).action, CloseAction.Restart);
+    assert.strictEqual(givenUp, 1);
+  });
+
+  test('Never restarts if maxRestarts is 0', async () => {
+    const handler = new RestartWithBackoff(
+      { maxRestarts: 0, initialDelay: 0, stderrLines: 10 },
+      silentLogger,
+      () => {},
+      () => {},
+    );
+    assert.strictEqual((await handler.closed()).action, CloseAction.DoNotRestart);
+  });
+
+  test('Crash report contains the configuration and the logs', () => {
+    const report = crashReport(
+      {
+        hlsVersion: '2.9.0.0',
+        tag: 'ghcup',
+        command: 'haskell-language-server-wrapper --lsp',
+        workingDir: '/project',
+        environment: ['TOKEN'],
+        config: { serverArgs: ['--lsp'] },
+        stderr: ['panic'],
+        log: ['starting'],
+      },
+      new Redactor(),
+    );
+    assert.ok(report.includes('- HLS version: 2.9.0.0'));
+    assert.ok(report.includes('"serverArgs"'));
+    assert.ok(report.includes('panic'));
+    assert.ok(report.includes('starting'));
+  });
+
+  test('Crash report is redacted as a whole', () => {
+    const home = os.homedir();
+    const report = crashReport(
+      {
+        tag: 'ghcup',
+        command: `haskell-language-server-wrapper --lsp -l ${home}/hls.log --token sup3rs3cret`,
+        workingDir: `${home}/corp-42`,
+        environment: [],
+        config: {},
+        stderr: [],
+        log: [],
+      },
+      new Redactor([/corp-[0-9]+/g], { API_TOKEN: 'sup3rs3cret' }),
+    );
+    assert.ok(report.includes('-l ~/hls.log'));
+    assert.ok(report.includes('- Working directory: `~/'));
+    assert.ok(!report.includes('sup3rs3cret'));
+    assert.ok(!report.includes('corp-42'));
+  });
+
+  test('Keeps the last lines of stderr, none if the limit is 0', () => {
+    const channel = fakeChannel();
+    const twoLines = new StderrCapturingChannel(channel, 2);
+    twoLines.append('one\ntwo\nthr');
+    twoLines.append('ee\nfour');
+    assert.deepStrictEqual(twoLines.stderrTail(), ['three', 'four']);
+    const none = new StderrCapturingChannel(channel, 0);
+    none.append('one\ntwo');
+    assert.deepStrictEqual(none.stderrTail(), []);
+  });
+});
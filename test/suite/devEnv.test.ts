@@ -0,0 +1,61 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { loadDevEnvironment } from '../../src/devEnv';
+import { HlsError } from '../../src/errors';
+import { silentLogger } from './fakeGhcup';
+
+suite('Development environment', () => {
+  let dir: string;
+  let project: string;
+  let storage: string;
+  const originalPath = process.env.PATH;
+
+  suiteSetup(function () {
+    if (process.platform === 'win32') {
+      // the fake direnv is a shell script
+      this.skip();
+    }
+  });
+
+  setup(async () => {
+    dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'vscode-haskell-devenv-'));
+    project = path.join(dir, 'project');
+    storage = path.join(dir, 'storage');
+    const bin = path.join(dir, 'bin');
+    await fs.promises.mkdir(project);
+    await fs.promises.mkdir(bin);
+    // a direnv that exports what the project's direnv.json says
+    await fs.promises.writeFile(path.join(bin, 'direnv'), '#!/bin/sh\ncat "$PWD/direnv.json"\n', { mode: 0o755 });
+    process.env.PATH = [bin, originalPath].join(path.delimiter);
+  });
+
+  teardown(async () => {
+    process.env.PATH = originalPath;
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  });
+
+  const direnvExports = (variables: { [name: string]: string | null }) =>
+    fs.promises.writeFile(path.join(project, 'direnv.json'), JSON.stringify(variables));
+
+  test('Takes the variables direnv exports, except its own and those it unsets', async () => {
+    await fs.promises.writeFile(path.join(project, '.envrc'), 'use flake\n');
+    await direnvExports({ FOO: '1', DIRENV_DIFF: 'diff', GONE: null });
+    assert.deepStrictEqual(await loadDevEnvironment(project, storage, silentLogger), { FOO: '1' });
+  });
+
+  test('Evaluates the environment again only if one of its files changes', async () => {
+    await fs.promises.writeFile(path.join(project, '.envrc'), 'use flake\n');
+    await direnvExports({ FOO: '1' });
+    await loadDevEnvironment(project, storage, silentLogger);
+    await direnvExports({ FOO: '2' });
+    assert.deepStrictEqual(await loadDevEnvironment(project, storage, silentLogger), { FOO: '1' });
+    await fs.promises.writeFile(path.join(project, 'flake.lock'), '{}\n');
+    assert.deepStrictEqual(await loadDevEnvironment(project, storage, silentLogger), { FOO: '2' });
+  });
+
+  test('Fails without an .envrc or a flake.nix', async () => {
+    await assert.rejects(loadDevEnvironment(project, storage, silentLogger), HlsError);
+  });
+});
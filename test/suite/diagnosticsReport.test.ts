@@ -0,0 +1,67 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Config } from '../../src/config';
+import { generateDiagnosticsReport } from '../../src/diagnosticsReport';
+import { ExtensionLogger } from '../../src/logger';
+import { Redactor } from '../../src/redaction';
+import { silentLogger } from './fakeGhcup';
+import { fakeChannel } from './fakes';
+
+suite('Diagnostics report', () => {
+  let project: string;
+
+  setup(async () => {
+    project = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'vscode-haskell-report-'));
+  });
+
+  teardown(async () => {
+    await fs.promises.rm(project, { recursive: true, force: true });
+  });
+
+  const config = (): Config => ({
+    langName: 'Haskell (project)',
+    logLevel: 'off',
+    clientLogLevel: 'info',
+    workingDir: project,
+    outputChannel: fakeChannel(),
+    serverArgs: ['--lsp'],
+    serverEnvironment: { API_TOKEN: 'sup3rs3cret', PATH: '/opt/ghc/bin' },
+    ghcupConfig: { upgradeGHCup: false, offline: false },
+    restartPolicy: { maxRestarts: 5, initialDelay: 1000, stderrLines: 50 },
+    logOptions: {},
+  });
+
+  test('Reports each server and redacts secrets and the home directory', async () => {
+    const logger = new ExtensionLogger('client', 'info', fakeChannel(), undefined);
+    logger.info(`Found HLS in ${path.join(os.homedir(), '.ghcup', 'bin')} with token sup3rs3cret`);
+    const report = await generateDiagnosticsReport(
+      '2.9.0',
+      [
+        {
+          status: 'running',
+          config: config(),
+          hlsExecutable: { location: path.join(project, 'hls'), tag: 'config' },
+          serverCommand: ['haskell-language-server-wrapper', ['--lsp']],
+          projectGhcCommand: ['node', ['-e', 'console.log("9.6.6")']],
+          environment: { API_TOKEN: 'sup3rs3cret' },
+          logger,
+        },
+      ],
+      undefined,
+      new Redactor([], { API_TOKEN: 'sup3rs3cret' }),
+      silentLogger,
+    );
+    assert.ok(report.includes('- Extension version: 2.9.0'));
+    assert.ok(report.includes('ghcup not found'));
+    assert.ok(report.includes('### Haskell (project)'));
+    assert.ok(report.includes('- Status: running'));
+    assert.ok(report.includes('- hie.yaml: absent'));
+    assert.ok(report.includes(': 9.6.6'));
+    assert.ok(report.includes('"PATH": "/opt/ghc/bin"'));
+    assert.ok(report.includes(`Found HLS in ${path.join('~', '.ghcup', 'bin')}`));
+    assert.ok(!report.includes('sup3rs3cret'));
+    assert.ok(!report.includes(os.homedir()));
+  });
+});
@@ -0,0 +1,74 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { hackagePackageId, sanitizeHtml } from '../../src/docsBrowser';
+
+suite('Documentation links', () => {
+  test('The version is taken from the package directory of the documentation', () => {
+    assert.strictEqual(
+      hackagePackageId(
+        'file:///home/me/.ghcup/ghc/9.6.6/share/doc/ghc-9.6.6/html/libraries/base-4.18.2.1/Prelude.html',
+        'base-4.18.2.1',
+        undefined,
+      ),
+      'base-4.18.2.1',
+    );
+  });
+
+  test('Directories of other packages in the path are skipped', () => {
+    assert.strictEqual(
+      hackagePackageId(
+        'file:///home/me/.cabal/store/ghc-9.6.6/text-2.0.2-1a2b3c4d/share/doc/html/Data-Text.html',
+        'html',
+        undefined,
+      ),
+      'text-2.0.2',
+    );
+    assert.strictEqual(
+      hackagePackageId('file:///home/me/.ghcup/ghc-9.6.6/doc/containers/Data-Map.html', 'containers', undefined),
+      'containers',
+    );
+  });
+
+  test('Falls back to the build plan of the project', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'build-plan-'));
+    try {
+      fs.writeFileSync(
+        path.join(dir, 'stack.yaml.lock'),
+        'packages:\n- completed:\n    hackage: containers-0.6.8@sha256:abc,123\n',
+      );
+      assert.strictEqual(
+        hackagePackageId('file:///home/me/.ghcup/ghc-9.6.6/doc/containers/Data-Map.html', 'containers', dir),
+        'containers-0.6.8',
+      );
+    } finally {
+      fs.rmSync(dir, { recursive: true });
+    }
+  });
+});
+
+suite('Documentation sanitization', () => {
+  test('Removes scripts and event handlers', () => {
+    assert.strictEqual(
+      sanitizeHtml('<p onclick="run()">a</p><script>alert(1)</script><iframe src="x"></iframe>'),
+      '<p>a</p>',
+    );
+  });
+
+  test('Neutralizes links that run code or commands', () => {
+    for (const href of [
+      'javascript:alert(1)',
+      'data:text/html,x',
+      'command:haskell.openDocumentationOnHackage?%7B%7D',
+    ]) {
+      assert.strictEqual(sanitizeHtml(`<a href="${href}">x</a>`), '<a href="#">x</a>');
+    }
+    assert.strictEqual(sanitizeHtml("<a href='COMMAND:workbench.action.terminal.new'>x</a>"), '<a href="#">x</a>');
+  });
+
+  test('Keeps links to other pages', () => {
+    const html = '<a href="../base-4.18.2.1/Prelude.html#v:map">map</a> <a href="https://hackage.haskell.org">x</a>';
+    assert.strictEqual(sanitizeHtml(html), html);
+  });
+});
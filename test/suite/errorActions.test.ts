@@ -0,0 +1,22 @@
+import * as assert from 'assert';
+import { canInstallWithGhcup, ErrorFixContext } from '../../src/errorActions';
+import { ManageHLS } from '../../src/hlsBinaries';
+
+suite('Quick fixes of errors', () => {
+  const fixContext = (manageHls: ManageHLS, offline: boolean): ErrorFixContext => ({
+    manageHls,
+    ghcupConfig: { upgradeGHCup: false, offline },
+  });
+
+  test('Installs tools only if ghcup manages the toolchain', () => {
+    assert.strictEqual(canInstallWithGhcup(fixContext('GHCup', false)), true);
+    for (const mode of ['PATH', 'Nix', 'Container'] as const) {
+      assert.strictEqual(canInstallWithGhcup(fixContext(mode, false)), false);
+    }
+  });
+
+  test('Installs nothing offline or when the failed server is unknown', () => {
+    assert.strictEqual(canInstallWithGhcup(fixContext('GHCup', true)), false);
+    assert.strictEqual(canInstallWithGhcup(undefined), false);
+  });
+});
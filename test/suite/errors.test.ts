@@ -0,0 +1,61 @@
+import * as assert from 'assert';
+import {
+  CradleError,
+  describeError,
+  ExecutableNotFoundError,
+  GHCupError,
+  HlsError,
+  HoogleError,
+  MetadataFetchError,
+  MissingToolError,
+  NoMatchingHls,
+  UndefinedVariableError,
+  UnsupportedPlatformError,
+  UserCancelledError,
+} from '../../src/errors';
+
+suite('Errors', () => {
+  test('Every kind of error has its own code', () => {
+    const errors: HlsError[] = [
+      new HlsError('failed'),
+      new MissingToolError('ghcup'),
+      new NoMatchingHls('9.0.1'),
+      new MetadataFetchError('offline'),
+      new GHCupError('ghcup failed'),
+      new CradleError('no cradle'),
+      new UnsupportedPlatformError('Unknown platform'),
+      new ExecutableNotFoundError('a HLS binary', '/nope', 'haskell.serverExecutablePath'),
+      new UserCancelledError('Downloading hls'),
+      new HoogleError('no results'),
+      new UndefinedVariableError('${env:NOPE}', 'NOPE is not set', 'haskell.logFile'),
+    ];
+    const codes = errors.map((e) => e.code);
+    assert.strictEqual(new Set(codes).size, codes.length);
+    assert.ok(codes.every((code) => /^HLS-E\d{3}$/.test(code)));
+  });
+
+  test('Describes errors with their code and hint', () => {
+    const cause = new Error('ENOTFOUND');
+    const error = new MetadataFetchError('Could not download the release metadata', cause);
+    assert.strictEqual(error.cause, cause);
+    assert.strictEqual(
+      describeError(error),
+      '[HLS-E003] Could not download the release metadata ' +
+        '(Check your internet connection and "haskell.releasesURL", or enable "haskell.offline")',
+    );
+    assert.strictEqual(describeError(new HlsError('failed')), '[HLS-E000] failed');
+    assert.strictEqual(describeError(new Error('plain')), 'plain');
+    assert.strictEqual(describeError('thrown string'), 'thrown string');
+  });
+
+  test('Missing tools know how to install them', () => {
+    const ghc = new MissingToolError('ghc');
+    assert.strictEqual(ghc.message, "Project requires GHC but it isn't installed");
+    assert.strictEqual(ghc.ghcupTool(), 'ghc');
+    assert.strictEqual(ghc.docLink()?.toString(), 'https://www.haskell.org/ghcup/');
+    const direnv = new MissingToolError('direnv');
+    assert.strictEqual(direnv.ghcupTool(), null);
+    assert.strictEqual(direnv.docLink()?.toString(), 'https://direnv.net/docs/installation.html');
+    assert.strictEqual(new MissingToolError('make').docLink(), null);
+  });
+});
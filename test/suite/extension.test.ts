@@ -70,7 +70,7 @@ suite('Extension Test Suite', () => {
 
   suiteTeardown(async () => {
     console.log('Stopping the lsp server');
-    await vscode.commands.executeCommand(StopServerCommandName);
+    await vscode.commands.executeCommand(StopServerCommandName, 'all');
 
     console.log('Contents of the extension log:');
     const logContents = getExtensionLogContent();
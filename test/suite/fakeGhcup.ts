@@ -0,0 +1,50 @@
+import { Logger } from 'vscode-languageclient';
+import { GHCup } from '../../src/ghcup';
+import { GHCupError } from '../../src/errors';
+
+export const silentLogger: Logger = {
+  error: () => {},
+  warn: () => {},
+  info: () => {},
+  log: () => {},
+};
+
+/**
+ * A ghcup that answers the queries of the extension from a fixed list of tools, without running anything.
+ */
+export class FakeGHCup extends GHCup {
+  /**
+   * Arguments of every invocation, in order.
+   */
+  readonly calls: string[][] = [];
+
+  /**
+   * @param tools Lines in the format of `ghcup list -r`: tool, version and comma separated tags.
+   * @param installed Tools that are installed, as `<tool>-<version>`.
+   */
+  constructor(
+    readonly tools: string[],
+    readonly installed: string[] = [],
+  ) {
+    super(silentLogger, 'ghcup', { upgradeGHCup: false, offline: false }, {});
+  }
+
+  public override async call(args: string[]): Promise<string> {
+    this.calls.push(args);
+    if (args[0] === 'whereis' && this.installed.includes(`${args[1]}-${args[2]}`)) {
+      return `/ghcup/bin/${args[1]}-${args[2]}`;
+    } else if (args[0] === 'list') {
+      const [tool, category] = [args[args.indexOf('-t') + 1], args[args.indexOf('-c') + 1]];
+      return this.tools
+        .filter((line) => line.split(' ')[0] === tool)
+        .filter((line) => {
+          const [name, version, tags] = line.split(' ');
+          const installed = this.installed.includes(`${name}-${version}`);
+          const set = (tags ?? '').split(',').includes('set');
+          return category === 'available' || (category === 'installed' && installed) || (category === 'set' && set);
+        })
+        .join('\n');
+    }
+    throw new GHCupError(`ghcup ${args.join(' ')} failed`);
+  }
+}
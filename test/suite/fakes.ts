@@ -0,0 +1,30 @@
+import { ConfigurationChangeEvent, ConfigurationScope, OutputChannel, WorkspaceConfiguration } from 'vscode';
+
+/**
+ * An output channel that only records what is written to it.
+ *
+ * @param lines Receives every line appended, and every text appended as it is.
+ */
+export function fakeChannel(lines: string[] = []): OutputChannel {
+  return {
+    append: (value: string) => lines.push(value),
+    appendLine: (line: string) => lines.push(line),
+  } as unknown as OutputChannel;
+}
+
+/**
+ * A `haskell` configuration with the given values.
+ */
+export function fakeConfig(values: { [setting: string]: unknown }): WorkspaceConfiguration {
+  return { get: (setting: string) => values[setting] } as unknown as WorkspaceConfiguration;
+}
+
+/**
+ * A change of the given settings, for all scopes or only for `changedScope`.
+ */
+export function fakeChange(settings: string[], changedScope?: ConfigurationScope): ConfigurationChangeEvent {
+  return {
+    affectsConfiguration: (section: string, scope?: ConfigurationScope) =>
+      settings.includes(section) && (changedScope === undefined || scope === changedScope),
+  };
+}
@@ -0,0 +1,38 @@
+import * as assert from 'assert';
+import { ExtensionContext } from 'vscode';
+import { HlsError } from '../../src/errors';
+import { checkInstalledOffline, promptUserForManagingHls } from '../../src/hlsBinaries';
+import { FakeGHCup } from './fakeGhcup';
+
+suite('Managing HLS', () => {
+  // the extension was never started before
+  const firstRun = {
+    globalState: { get: () => undefined, update: () => Promise.resolve() },
+  } as unknown as ExtensionContext;
+
+  test('Modes chosen on purpose survive the first run', async () => {
+    for (const mode of ['GHCup', 'Nix', 'Container'] as const) {
+      assert.strictEqual(await promptUserForManagingHls(firstRun, mode), mode);
+    }
+  });
+
+  test('Offline, only installed tools can be used', async () => {
+    const ghcup = new FakeGHCup([], ['hls-2.9.0.0', 'ghc-9.6.6']);
+    await checkInstalledOffline(ghcup, [
+      ['hls', '2.9.0.0'],
+      ['ghc', '9.6.6'],
+      ['cabal', null],
+    ]);
+    await assert.rejects(
+      checkInstalledOffline(ghcup, [
+        ['hls', '2.9.0.0'],
+        ['ghc', '9.8.2'],
+        ['cabal', '3.10.3.0'],
+      ]),
+      (err) =>
+        err instanceof HlsError &&
+        err.message.includes('the project needs ghc-9.8.2, cabal-3.10.3.0') &&
+        err.message.includes("'ghcup install ghc 9.8.2', 'ghcup install cabal 3.10.3.0'"),
+    );
+  });
+});
@@ -0,0 +1,28 @@
+import * as assert from 'assert';
+import { HoogleError } from '../../src/errors';
+import { parseHoogleResults } from '../../src/hoogle';
+
+suite('Hoogle', () => {
+  const result = {
+    url: 'https://hackage.haskell.org/package/base/docs/Prelude.html#v:map',
+    module: { name: 'Prelude', url: 'https://hackage.haskell.org/package/base/docs/Prelude.html' },
+    package: { name: 'base', url: 'https://hackage.haskell.org/package/base' },
+    item: '<span class=name><0>map</0></span> :: (a -&gt; b) -&gt; [a] -&gt; [b]',
+    docs: 'map f xs is the list obtained by applying f to each element of xs',
+  };
+
+  test('Parses the results', () => {
+    assert.deepStrictEqual(parseHoogleResults(JSON.stringify([result]) + '\n', null), [result]);
+  });
+
+  test('No results are not an error', () => {
+    // hoogle exits with an error if nothing was found
+    assert.deepStrictEqual(parseHoogleResults('[]', new Error('exit code 1')), []);
+    assert.deepStrictEqual(parseHoogleResults('', null), []);
+  });
+
+  test('Fails on truncated output or if hoogle failed', () => {
+    assert.throws(() => parseHoogleResults(JSON.stringify([result]).substring(0, 50), null), HoogleError);
+    assert.throws(() => parseHoogleResults('hoogle: unknown flag --json', new Error('exit code 1')), HoogleError);
+  });
+});
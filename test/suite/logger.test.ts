@@ -0,0 +1,66 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ExtensionLogger, flushLogs, holdLogFile } from '../../src/logger';
+import { fakeChannel } from './fakes';
+
+suite('Logger', () => {
+  let dir: string;
+
+  setup(async () => {
+    dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'vscode-haskell-logs-'));
+  });
+
+  teardown(async () => {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  });
+
+  test('Rotates the log file when it gets too big', async () => {
+    const file = path.join(dir, 'hls.log');
+    const logger = new ExtensionLogger('client', 'info', fakeChannel([]), file, {
+      rotation: { maxSize: 100, maxFiles: 1 },
+    });
+    logger.info('a'.repeat(80));
+    await flushLogs();
+    logger.info('b'.repeat(80));
+    await flushLogs();
+    assert.ok(fs.readFileSync(`${file}.1`, 'utf8').includes('a'.repeat(80)));
+    assert.ok(fs.readFileSync(file, 'utf8').includes('b'.repeat(80)));
+  });
+
+  test('Keeps appending and reports once if the log file cannot be rotated', async () => {
+    const file = path.join(dir, 'busy.log');
+    // a directory in the way of the rotated file
+    await fs.promises.mkdir(path.join(`${file}.1`, 'taken'), { recursive: true });
+    const channel: string[] = [];
+    const logger = new ExtensionLogger('client', 'info', fakeChannel(channel), file, {
+      rotation: { maxSize: 100, maxFiles: 1 },
+    });
+    for (const line of ['a', 'b', 'c']) {
+      logger.info(line.repeat(80));
+      await flushLogs();
+    }
+    const contents = fs.readFileSync(file, 'utf8');
+    assert.ok(['a', 'b', 'c'].every((line) => contents.includes(line.repeat(80))));
+    assert.strictEqual(channel.filter((line) => line.startsWith('Could not rotate')).length, 1);
+  });
+
+  test('Does not rotate the log file while a server writes to it', async () => {
+    const file = path.join(dir, 'shared.log');
+    const logger = new ExtensionLogger('client', 'info', fakeChannel([]), file, {
+      rotation: { maxSize: 100, maxFiles: 1 },
+    });
+    const release = holdLogFile(file);
+    for (const line of ['a', 'b']) {
+      logger.info(line.repeat(80));
+      await flushLogs();
+    }
+    assert.ok(!fs.existsSync(`${file}.1`));
+    release();
+    logger.info('c'.repeat(80));
+    await flushLogs();
+    assert.ok(fs.readFileSync(`${file}.1`, 'utf8').includes('b'.repeat(80)));
+    assert.ok(fs.readFileSync(file, 'utf8').includes('c'.repeat(80)));
+  });
+});
@@ -0,0 +1,59 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CradleError } from '../../src/errors';
+import { getStackProjectGhcVersion, isStackProject } from '../../src/stack';
+import { silentLogger } from './fakeGhcup';
+
+suite('Stack projects', () => {
+  let project: string;
+  let bin: string;
+
+  setup(async () => {
+    project = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'vscode-haskell-stack-'));
+    bin = path.join(project, 'bin');
+    await fs.promises.mkdir(bin);
+  });
+
+  teardown(async () => {
+    await fs.promises.rm(project, { recursive: true, force: true });
+  });
+
+  const stackYaml = (contents: string) => fs.promises.writeFile(path.join(project, 'stack.yaml'), contents);
+
+  /**
+   * A stack that answers every query with `output`.
+   */
+  const fakeStack = (output: string) =>
+    fs.promises.writeFile(path.join(bin, 'stack'), `#!/bin/sh\necho '${output}'\n`, { mode: 0o755 });
+
+  test('Is a stack project with a stack.yaml but no cabal.project', async () => {
+    assert.strictEqual(isStackProject(project), false);
+    await stackYaml('snapshot: lts-22.0\n');
+    assert.strictEqual(isStackProject(project), true);
+    await fs.promises.writeFile(path.join(project, 'cabal.project'), 'packages: .\n');
+    assert.strictEqual(isStackProject(project), false);
+  });
+
+  test('Takes the GHC version from the compiler or a GHC snapshot', async () => {
+    await stackYaml('resolver: ghc-9.4.8\n');
+    assert.strictEqual(await getStackProjectGhcVersion(bin, project, silentLogger), '9.4.8');
+    await stackYaml(`snapshot: 'ghc-9.8.2' # pinned\n`);
+    assert.strictEqual(await getStackProjectGhcVersion(bin, project, silentLogger), '9.8.2');
+    await stackYaml('snapshot: lts-22.0\ncompiler: "ghc-9.6.6"\n');
+    assert.strictEqual(await getStackProjectGhcVersion(bin, project, silentLogger), '9.6.6');
+  });
+
+  test('Asks stack for the GHC version of other snapshots', async function () {
+    if (process.platform === 'win32') {
+      // the fake stack is a shell script
+      this.skip();
+    }
+    await stackYaml('# compiler: ghc-9.2.8\nsnapshot: lts-22.0\n');
+    await fakeStack('ghc-9.6.3');
+    assert.strictEqual(await getStackProjectGhcVersion(bin, project, silentLogger), '9.6.3');
+    await fakeStack('no compiler here');
+    await assert.rejects(getStackProjectGhcVersion(bin, project, silentLogger), CradleError);
+  });
+});
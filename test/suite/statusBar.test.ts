@@ -0,0 +1,85 @@
+import * as assert from 'assert';
+import { MarkdownString } from 'vscode';
+import { OpenLogsCommandName, ResumeSetupCommandName } from '../../src/commands/constants';
+import { HaskellStatusBar } from '../../src/statusBar';
+
+suite('Status bar', () => {
+  let statusBar: HaskellStatusBar;
+
+  setup(() => {
+    statusBar = new HaskellStatusBar('2.9.0');
+  });
+
+  teardown(() => {
+    statusBar.dispose();
+  });
+
+  test('Follows the life cycle of the server', () => {
+    statusBar.update('a', { status: 'resolving', name: 'a' });
+    assert.strictEqual(statusBar.item.text, '$(sync~spin) Haskell');
+    statusBar.update('a', { status: 'starting' });
+    assert.strictEqual(statusBar.item.text, '$(sync~spin) Haskell');
+    statusBar.update('a', { status: 'running' });
+    assert.strictEqual(statusBar.item.text, 'Haskell');
+    assert.strictEqual(statusBar.item.backgroundColor, undefined);
+    statusBar.update('a', { status: 'crashed', message: 'The language server exited unexpectedly.' });
+    assert.strictEqual(statusBar.item.text, '$(error) Haskell');
+    assert.notStrictEqual(statusBar.item.backgroundColor, undefined);
+    statusBar.update('a', { status: 'stopped' });
+    assert.strictEqual(statusBar.statusOf('a'), 'stopped');
+    assert.strictEqual(statusBar.item.text, '$(debug-stop) Haskell');
+  });
+
+  test('Keeps what it knows about a server when only the status changes', () => {
+    statusBar.update('a', { status: 'starting', name: 'project', hlsVersion: '2.9.0.0', ghcVersion: '9.6.6' });
+    statusBar.update('a', { status: 'running' });
+    statusBar.setActiveClient('a');
+    const tooltip = (statusBar.item.tooltip as MarkdownString).value;
+    assert.ok(tooltip.includes('**project**: running'));
+    assert.ok(tooltip.includes('HLS: 2.9.0.0'));
+    assert.ok(tooltip.includes('GHC: 9.6.6'));
+  });
+
+  test('Shows problems of any server unless the active editor belongs to a server', () => {
+    statusBar.update('a', { status: 'running' });
+    statusBar.update('b', { status: 'error', message: 'No HLS found' });
+    assert.strictEqual(statusBar.item.text, '$(error) Haskell');
+    statusBar.setActiveClient('a');
+    assert.strictEqual(statusBar.item.text, 'Haskell');
+    statusBar.setActiveClient(undefined);
+    statusBar.remove('b');
+    assert.strictEqual(statusBar.statusOf('b'), undefined);
+    assert.strictEqual(statusBar.item.text, 'Haskell');
+  });
+
+  test('Opens the logs of the active server, or of all servers', () => {
+    statusBar.update('a', { status: 'running' });
+    assert.deepStrictEqual(statusBar.item.command, {
+      title: 'Open Logs',
+      command: OpenLogsCommandName,
+      arguments: ['all'],
+    });
+    statusBar.setActiveClient('a');
+    assert.deepStrictEqual(statusBar.item.command, {
+      title: 'Open Logs',
+      command: OpenLogsCommandName,
+      arguments: ['a'],
+    });
+  });
+
+  test('Offers to resume a cancelled setup', () => {
+    statusBar.update('a', { status: 'cancelled' });
+    assert.strictEqual(statusBar.item.text, '$(debug-pause) Haskell');
+    assert.deepStrictEqual(statusBar.item.command, {
+      title: 'Resume Setup',
+      command: ResumeSetupCommandName,
+      arguments: [],
+    });
+    statusBar.setActiveClient('a');
+    assert.deepStrictEqual(statusBar.item.command, {
+      title: 'Resume Setup',
+      command: ResumeSetupCommandName,
+      arguments: ['a'],
+    });
+  });
+});
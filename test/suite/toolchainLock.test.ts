@@ -0,0 +1,48 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { readToolchainLock, toolchainLockDrift, writeToolchainLock } from '../../src/toolchainLock';
+import { FakeGHCup, silentLogger } from './fakeGhcup';
+
+suite('Toolchain lock', () => {
+  const ghcup = new FakeGHCup(
+    ['ghc 9.4.8', 'ghc 9.6.6 recommended,set', 'ghc 9.10.1 latest', 'hls 2.9.0.0 latest,set', 'cabal 3.12.1.0 set'],
+    ['ghc-9.6.6', 'hls-2.9.0.0', 'cabal-3.12.1.0'],
+  );
+
+  test('No drift if the server uses the locked toolchain and it is installed', async () => {
+    const lock = { ghc: '9.6.6', hls: '2.9.0.0' };
+    assert.deepStrictEqual(await toolchainLockDrift(lock, { ...lock, cabal: '3.12.1.0' }, ghcup), []);
+  });
+
+  test('Reports tools the server uses in a different version', async () => {
+    const drift = await toolchainLockDrift({ ghc: '9.6.6' }, { ghc: '9.10.1' }, ghcup);
+    assert.deepStrictEqual(drift, ['ghc: locked to 9.6.6, but the server uses 9.10.1']);
+  });
+
+  test('Reports locked tools that are not installed, with the set version', async () => {
+    const drift = await toolchainLockDrift({ ghc: '9.4.8' }, { ghc: '9.4.8' }, ghcup);
+    assert.deepStrictEqual(drift, ['ghc: locked to 9.4.8, which is not installed (set version: 9.6.6)']);
+  });
+
+  test('Tools that are not locked are not compared', async () => {
+    assert.deepStrictEqual(await toolchainLockDrift({}, { ghc: '9.10.1', stack: '3.1.1' }, ghcup), []);
+  });
+
+  test('Writing a lock resolves tags, reading it returns the versions', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'toolchain-lock-'));
+    try {
+      const written = await writeToolchainLock(
+        dir,
+        { ghc: 'recommended', hls: '2.9.0.0', cabal: null, stack: undefined },
+        ghcup,
+        silentLogger,
+      );
+      assert.deepStrictEqual(written, { hls: '2.9.0.0', ghc: '9.6.6' });
+      assert.deepStrictEqual(readToolchainLock(dir, silentLogger), written);
+    } finally {
+      fs.rmSync(dir, { recursive: true });
+    }
+  });
+});
@@ -0,0 +1,52 @@
+import * as assert from 'assert';
+import { listToolVersions, usesVersion } from '../../src/toolchainView';
+import { FakeGHCup } from './fakeGhcup';
+
+suite('Toolchain view', () => {
+  const tools = ['ghc 9.4.8 base-4.17.2.2', 'ghc 9.6.6 recommended,base-4.18.2.1,set', 'ghc 9.10.1 latest'];
+
+  test('Lists the available versions, newest first, with what is installed and set', async () => {
+    const ghcup = new FakeGHCup(tools, ['ghc-9.4.8', 'ghc-9.6.6']);
+    const versions = await listToolVersions(ghcup, 'ghc');
+    assert.deepStrictEqual(
+      versions.map((v) => [v.version, v.installed, v.set]),
+      [
+        ['9.10.1', false, false],
+        ['9.6.6', true, true],
+        ['9.4.8', true, false],
+      ],
+    );
+    assert.deepStrictEqual(versions[1].tags, ['recommended', 'base-4.18.2.1', 'set']);
+  });
+
+  test('Lists installed versions that are not available', async () => {
+    // e.g. compiled with `ghcup compile`, ghcup lists them as installed only
+    class CompiledGHCup extends FakeGHCup {
+      public override async call(args: string[]): Promise<string> {
+        const output = await super.call(args);
+        return args.includes('available')
+          ? output
+              .split('\n')
+              .filter((line) => !line.includes('9.8.2'))
+              .join('\n')
+          : output;
+      }
+    }
+    const ghcup = new CompiledGHCup([...tools, 'ghc 9.8.2'], ['ghc-9.8.2']);
+    const versions = await listToolVersions(ghcup, 'ghc');
+    assert.deepStrictEqual(
+      versions.map((v) => v.version),
+      ['9.10.1', '9.8.2', '9.6.6', '9.4.8'],
+    );
+    assert.strictEqual(versions[1].installed, true);
+  });
+
+  test('A toolchain uses a version by number or by tag', async () => {
+    const [latest, recommended] = await listToolVersions(new FakeGHCup(tools), 'ghc');
+    const used = (ghc: string) => ({ name: 'project', toolchain: { ghc } });
+    assert.strictEqual(usesVersion(used('9.10.1'), latest), true);
+    assert.strictEqual(usesVersion(used('recommended'), recommended), true);
+    assert.strictEqual(usesVersion(used('recommended'), latest), false);
+    assert.strictEqual(usesVersion({ name: 'project', toolchain: {} }, latest), false);
+  });
+});
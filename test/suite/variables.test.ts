@@ -0,0 +1,67 @@
+import * as assert from 'assert';
+import * as os from 'os';
+import * as path from 'path';
+import { Uri, WorkspaceFolder } from 'vscode';
+import { UndefinedVariableError } from '../../src/errors';
+import { resolveServerEnvironment, substituteVariables } from '../../src/utils';
+
+suite('Variables in settings', () => {
+  const root = path.join(os.tmpdir(), 'my project');
+  const folder: WorkspaceFolder = { uri: Uri.file(root), name: 'project', index: 0 };
+
+  test('Substitutes the home directory', () => {
+    for (const value of ['~/bin', '${userHome}/bin', '${HOME}/bin', '${home}/bin']) {
+      assert.strictEqual(substituteVariables(value, 'haskell.logFile'), `${os.homedir()}/bin`);
+    }
+    // only a leading ~ that is a whole path segment
+    assert.strictEqual(substituteVariables('a~/b', 'haskell.logFile'), 'a~/b');
+    assert.strictEqual(substituteVariables('~user/b', 'haskell.logFile'), '~user/b');
+  });
+
+  test('Substitutes the workspace folder', () => {
+    assert.strictEqual(substituteVariables('${workspaceFolder}/hls.log', 'haskell.logFile', folder), `${root}/hls.log`);
+    assert.strictEqual(substituteVariables('${workspaceRoot}', 'haskell.logFile', folder), root);
+    assert.strictEqual(
+      substituteVariables('${workspaceFolderBasename}.log', 'haskell.logFile', folder),
+      'my project.log',
+    );
+  });
+
+  test('Substitutes environment variables', () => {
+    process.env.VSCODE_HASKELL_TEST = 'value';
+    try {
+      assert.strictEqual(substituteVariables('a-${env:VSCODE_HASKELL_TEST}-b', 'haskell.logFile'), 'a-value-b');
+      assert.strictEqual(
+        substituteVariables('$PATH:${PATH}', 'haskell.logFile'),
+        `${process.env.PATH}:${process.env.PATH}`,
+      );
+    } finally {
+      delete process.env.VSCODE_HASKELL_TEST;
+    }
+  });
+
+  test('Fails on variables without a value', () => {
+    const failsWith = (value: string, reason: string, scope?: WorkspaceFolder) =>
+      assert.throws(
+        () => substituteVariables(value, 'haskell.logFile', scope),
+        (err) => err instanceof UndefinedVariableError && err.message.includes(reason),
+      );
+    failsWith('${workspaceFolder}/hls.log', 'not in a workspace folder');
+    failsWith('${env:VSCODE_HASKELL_UNSET}', 'VSCODE_HASKELL_UNSET is not set');
+    failsWith('${workspaceFolder:nope}', 'no workspace folder named nope', folder);
+    failsWith('${nope}', 'unknown variable', folder);
+  });
+
+  test('Substitutes the workspace folder in the PATH of the server environment', () => {
+    const environment = { PATH: `\${workspaceFolder}/bin${path.delimiter}\${env:PATH}`, TOKEN: '${env:NOPE_UNSET}' };
+    assert.deepStrictEqual(resolveServerEnvironment(environment, folder), {
+      PATH: `${root}/bin${path.delimiter}${process.env.PATH}`,
+    });
+    // without the folder, the entry can't be resolved and is left out rather than passed on literally
+    assert.deepStrictEqual(resolveServerEnvironment(environment), {});
+  });
+
+  test('Leaves other text alone', () => {
+    assert.strictEqual(substituteVariables('$HOME/{a,b} $PATHS', 'haskell.logFile'), '$HOME/{a,b} $PATHS');
+  });
+});
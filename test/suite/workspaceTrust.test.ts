@@ -0,0 +1,60 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { HaskellStatusBar, manageTrustCommand } from '../../src/statusBar';
+
+type PackageJson = {
+  capabilities: { untrustedWorkspaces: { restrictedConfigurations: string[] } };
+  contributes: { configuration: { properties: { [setting: string]: unknown } } };
+};
+
+suite('Workspace trust', () => {
+  const packageJson = JSON.parse(
+    fs.readFileSync(path.join(__dirname, '..', '..', '..', 'package.json'), { encoding: 'utf-8' }),
+  ) as PackageJson;
+  const restricted = packageJson.capabilities.untrustedWorkspaces.restrictedConfigurations;
+
+  test('Settings that run, install or download something, or write files, only count in trusted workspaces', () => {
+    const runs = [
+      'manageHLS',
+      'serverExecutablePath',
+      'ghcupExecutablePath',
+      'serverExtraArgs',
+      'serverEnvironment',
+      'container.command',
+      'container.serverExecutable',
+      'container.pathMappings',
+    ];
+    const installs = ['toolchain', 'toolchainLock', 'stackGhcManagement', 'cacheToolchain', 'offline', 'upgradeGHCup'];
+    const downloads = ['releasesURL', 'metadataURL', 'hackageBaseUrl'];
+    const writes = [
+      'releasesDownloadStoragePath',
+      'logFile',
+      'logRotation.maxSize',
+      'logRotation.maxFiles',
+      'hoogle.database',
+    ];
+    for (const setting of [...runs, ...installs, ...downloads, ...writes]) {
+      assert.ok(restricted.includes(`haskell.${setting}`), `haskell.${setting} is not restricted`);
+    }
+  });
+
+  test('Only settings of the extension are restricted', () => {
+    const settings = Object.keys(packageJson.contributes.configuration.properties);
+    assert.deepStrictEqual(
+      restricted.filter((setting) => !settings.includes(setting)),
+      [],
+    );
+  });
+
+  test('The status bar offers to trust the workspace in Restricted Mode', () => {
+    const statusBar = new HaskellStatusBar('2.9.0');
+    try {
+      statusBar.update('a', { status: 'untrusted', message: 'The language server is not started in Restricted Mode.' });
+      assert.strictEqual(statusBar.item.text, '$(shield) Haskell');
+      assert.deepStrictEqual(statusBar.item.command, { title: 'Manage Workspace Trust', command: manageTrustCommand });
+    } finally {
+      statusBar.dispose();
+    }
+  });
+});